@@ -1,9 +1,13 @@
-import React, { useMemo, useState } from 'react';
+import React, { useState } from 'react';
 import {
   AppBar,
   Box,
+  Button,
   Chip,
   CssBaseline,
+  Dialog,
+  DialogContent,
+  DialogTitle,
   GlobalStyles,
   IconButton,
   Stack,
@@ -14,12 +18,9 @@ import {
   Typography,
   createTheme,
 } from '@mui/material';
-import { CloseRounded, GavelRounded, InfoOutlined, PublicRounded, ScienceRounded } from '@mui/icons-material';
+import { CloseRounded, InfoOutlined, MenuBookRounded, ScienceRounded } from '@mui/icons-material';
 import { Link, Navigate, Route, Routes, useLocation } from 'react-router-dom';
-import { ContactForceSimulation } from './components/ContactForceSimulation';
-import { GravitySimulation } from './components/GravitySimulation';
-
-type TabKey = 'contact' | 'gravity';
+import { SIMULATIONS } from './components/simulationRegistry';
 
 const theme = createTheme({
   palette: {
@@ -53,13 +54,11 @@ const theme = createTheme({
 const App: React.FC = () => {
   const [showInfo, setShowInfo] = useState(true);
   const [learningMode, setLearningMode] = useState(false);
+  const [showTextbook, setShowTextbook] = useState(false);
   const location = useLocation();
-  const tab: TabKey = location.pathname.startsWith('/example2') ? 'gravity' : 'contact';
-
-  const tabIcon = useMemo(() => {
-    if (tab === 'contact') return <GavelRounded />;
-    return <PublicRounded />;
-  }, [tab]);
+  const active =
+    SIMULATIONS.find((sim) => location.pathname === sim.path || location.pathname.startsWith(`${sim.path}/`)) ??
+    SIMULATIONS[0];
 
   return (
     <ThemeProvider theme={theme}>
@@ -100,11 +99,13 @@ const App: React.FC = () => {
             <Box sx={{ flex: 1 }}>
               <Typography variant="h6">Newton’s Third Law Lab</Typography>
               <Typography variant="caption" sx={{ opacity: 0.8 }}>
-                Explore action-reaction pairs in two textbook examples
+                Explore action-reaction pairs in {SIMULATIONS.length} textbook examples
               </Typography>
             </Box>
             <Tabs
-              value={tab}
+              value={active.path}
+              variant="scrollable"
+              scrollButtons="auto"
               textColor="inherit"
               TabIndicatorProps={{ style: { background: '#f97316', height: 3 } }}
               sx={{
@@ -112,26 +113,22 @@ const App: React.FC = () => {
                 borderRadius: 999,
                 px: 1,
                 minHeight: 44,
+                minWidth: 0,
+                maxWidth: '60%',
               }}
             >
-              <Tab
-                value="contact"
-                component={Link}
-                to="/example1"
-                icon={<GavelRounded />}
-                iconPosition="start"
-                label="Example 1: Contact Force"
-                sx={{ textTransform: 'none', fontWeight: 700, minHeight: 44 }}
-              />
-              <Tab
-                value="gravity"
-                component={Link}
-                to="/example2"
-                icon={<PublicRounded />}
-                iconPosition="start"
-                label="Example 2: Non-contact Force"
-                sx={{ textTransform: 'none', fontWeight: 700, minHeight: 44 }}
-              />
+              {SIMULATIONS.map((sim) => (
+                <Tab
+                  key={sim.path}
+                  value={sim.path}
+                  component={Link}
+                  to={sim.path}
+                  icon={sim.icon}
+                  iconPosition="start"
+                  label={sim.label}
+                  sx={{ textTransform: 'none', fontWeight: 700, minHeight: 44 }}
+                />
+              ))}
             </Tabs>
             <Stack direction="row" alignItems="center" spacing={1} sx={{ ml: 1 }}>
               <Typography variant="caption" sx={{ opacity: 0.8 }}>
@@ -147,9 +144,14 @@ const App: React.FC = () => {
 
         <Box sx={{ flex: 1, minHeight: 0, overflow: 'hidden' }}>
           <Routes>
-            <Route path="/" element={<Navigate to="/example1" replace />} />
-            <Route path="/example1" element={<ContactForceSimulation learningMode={learningMode} />} />
-            <Route path="/example2" element={<GravitySimulation learningMode={learningMode} />} />
+            <Route path="/" element={<Navigate to={SIMULATIONS[0].path} replace />} />
+            {SIMULATIONS.map(({ path, Component }) => (
+              <Route
+                key={path}
+                path={path}
+                element={<Component learningMode={learningMode} onOpenTextbook={() => setShowTextbook(true)} />}
+              />
+            ))}
           </Routes>
         </Box>
 
@@ -169,7 +171,7 @@ const App: React.FC = () => {
           >
             <Stack direction="row" justifyContent="space-between" alignItems="center" spacing={1}>
               <Stack direction="row" alignItems="center" spacing={1}>
-                {tabIcon}
+                {active.icon}
                 <Typography variant="subtitle1" sx={{ fontWeight: 800 }}>
                   Key concept
                 </Typography>
@@ -179,16 +181,38 @@ const App: React.FC = () => {
               </IconButton>
             </Stack>
             <Typography variant="body2" sx={{ mt: 1.5, color: 'rgba(51, 65, 85, 0.9)' }}>
-              Whenever two objects interact, they exert forces on each other that are equal in magnitude and opposite
-              in direction. Look for matching values in the force cards.
+              {active.keyConcept}
             </Typography>
-            <Stack direction="row" spacing={1} sx={{ mt: 2, flexWrap: 'wrap' }}>
-              <Chip label="Always paired" size="small" />
-              <Chip label="Equal magnitude" size="small" />
-              <Chip label="Opposite direction" size="small" />
+            <Stack direction="row" spacing={1} useFlexGap sx={{ mt: 2, flexWrap: 'wrap' }}>
+              {active.chips.map((chip) => (
+                <Chip key={chip} label={chip} size="small" />
+              ))}
             </Stack>
+            {active.textbook && (
+              <Button
+                size="small"
+                startIcon={<MenuBookRounded />}
+                onClick={() => setShowTextbook(true)}
+                sx={{ mt: 1.5, fontWeight: 700 }}
+              >
+                Textbook page
+              </Button>
+            )}
           </Box>
         )}
+        {active.textbook && (
+          <Dialog open={showTextbook} onClose={() => setShowTextbook(false)} maxWidth="sm" fullWidth>
+            <DialogTitle>{active.textbook.title}</DialogTitle>
+            <DialogContent>
+              <Box
+                component="img"
+                src={active.textbook.src}
+                alt={active.textbook.alt}
+                sx={{ width: '100%', borderRadius: 2, border: '1px solid rgba(15, 23, 42, 0.12)' }}
+              />
+            </DialogContent>
+          </Dialog>
+        )}
       </Box>
     </ThemeProvider>
   );
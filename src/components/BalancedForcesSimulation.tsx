@@ -0,0 +1,424 @@
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { Box, Button, Card, CardContent, Chip, Paper, Stack, Typography } from '@mui/material';
+import { MenuBookRounded } from '@mui/icons-material';
+import {
+  ControlSlider,
+  drawScaleLegend,
+  drawVector,
+  hitTestArrows,
+  SimulationDefinition,
+  useCachedLayers,
+  useElementSize,
+  useRenderLoop,
+} from './simShared';
+
+type ForceKey = 'weight' | 'normal' | 'bookOnEarth' | 'bookOnTable';
+type BodyName = 'book' | 'Earth' | 'table';
+type Verdict = { kind: 'pair' | 'balanced' | 'neither'; title: string; reasons: string[] };
+type ForceSpec = {
+  label: string;
+  description: string;
+  on: BodyName;
+  by: BodyName;
+  interaction: 'gravitational' | 'contact';
+  direction: 1 | -1;
+  color: string;
+};
+
+const GRAVITY_ACCEL = 9.8;
+const PX_PER_NEWTON = 2.2;
+
+const FORCES: Record<ForceKey, ForceSpec> = {
+  weight: {
+    label: 'F_Earth→book',
+    description: 'Weight: the Earth pulls the book down',
+    on: 'book',
+    by: 'Earth',
+    interaction: 'gravitational',
+    direction: 1,
+    color: '#ef4444',
+  },
+  normal: {
+    label: 'F_table→book',
+    description: 'Normal force: the table pushes the book up',
+    on: 'book',
+    by: 'table',
+    interaction: 'contact',
+    direction: -1,
+    color: '#3b82f6',
+  },
+  bookOnEarth: {
+    label: 'F_book→Earth',
+    description: 'The book pulls the Earth up',
+    on: 'Earth',
+    by: 'book',
+    interaction: 'gravitational',
+    direction: -1,
+    color: '#f97316',
+  },
+  bookOnTable: {
+    label: 'F_book→table',
+    description: 'The book pushes the table down',
+    on: 'table',
+    by: 'book',
+    interaction: 'contact',
+    direction: 1,
+    color: '#8b5cf6',
+  },
+};
+
+const FORCE_KEYS = Object.keys(FORCES) as ForceKey[];
+
+const VERDICT_COLORS: Record<Verdict['kind'], string> = {
+  pair: '#16a34a',
+  balanced: '#d97706',
+  neither: '#64748b',
+};
+
+// A third-law pair is one interaction seen from both sides: A on B and B on A, same type of force. Two forces on
+// the same object can cancel, but that makes them balanced, not a pair.
+const classifyPair = (a: ForceSpec, b: ForceSpec, magnitudes: [number, number]): Verdict => {
+  const equal = Math.abs(magnitudes[0] - magnitudes[1]) < 1e-6;
+  if (a.on === b.by && a.by === b.on && a.interaction === b.interaction) {
+    return {
+      kind: 'pair',
+      title: 'Third-law pair',
+      reasons: [
+        `One acts on the ${a.on}, the other on the ${b.on}: the same two objects, with the roles swapped.`,
+        `Both are ${a.interaction} forces, so they come from one interaction.`,
+        'They are equal in size and opposite in direction, and they can never cancel because they act on different objects.',
+      ],
+    };
+  }
+  if (a.on === b.on) {
+    return {
+      kind: 'balanced',
+      title: 'Balanced forces, not a third-law pair',
+      reasons: [
+        `Both forces act on the same object (the ${a.on}), so they can cancel, but a third-law pair never acts on one object.`,
+        a.interaction === b.interaction
+          ? `Both are ${a.interaction} forces, but they are exerted by different objects.`
+          : `One is ${a.interaction} and the other is ${b.interaction}: they come from two different interactions.`,
+        equal
+          ? 'They are equal only because the book is at rest with nothing else acting on it.'
+          : 'Pressing on the book makes them unequal, something a real third-law pair can never do.',
+      ],
+    };
+  }
+  return {
+    kind: 'neither',
+    title: 'Neither a pair nor balanced',
+    reasons: [
+      `They act on different objects (the ${a.on} and the ${b.on}), so they cannot balance each other.`,
+      `They are not the same interaction: ${a.by} on ${a.on} versus ${b.by} on ${b.on}.`,
+    ],
+  };
+};
+
+const getLayout = (width: number, height: number) => {
+  const scale = height / 600;
+  const tableTop = height * 0.5;
+  return {
+    scale,
+    tableTop,
+    tableLeft: width * 0.28,
+    tableRight: width * 0.72,
+    earthTop: height * 0.84,
+    bookX: width * 0.5,
+    bookWidth: 170 * scale,
+    bookHeight: 38 * scale,
+  };
+};
+
+export const BalancedForcesSimulation = ({ learningMode }: { learningMode: boolean }) => {
+  const [bookMass, setBookMass] = useState(2);
+  const [handPush, setHandPush] = useState(0);
+  const [selected, setSelected] = useState<ForceKey[]>([]);
+
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const size = useElementSize(containerRef);
+  const drawLayer = useCachedLayers();
+
+  const magnitudes = useMemo((): Record<ForceKey, number> => {
+    const weight = bookMass * GRAVITY_ACCEL;
+    return { weight, normal: weight + handPush, bookOnEarth: weight, bookOnTable: weight + handPush };
+  }, [bookMass, handPush]);
+
+  const getArrows = useCallback(() => {
+    const { scale, tableTop, earthTop, bookX, bookWidth, bookHeight } = getLayout(size.width, size.height);
+    const bookCenterY = tableTop - bookHeight / 2;
+    const starts: Record<ForceKey, { x: number; y: number }> = {
+      weight: { x: bookX - 36 * scale, y: bookCenterY },
+      normal: { x: bookX + 36 * scale, y: bookCenterY },
+      bookOnEarth: { x: bookX - bookWidth, y: earthTop },
+      bookOnTable: { x: bookX + bookWidth, y: tableTop },
+    };
+    return FORCE_KEYS.map((key) => {
+      const length = Math.max(14, magnitudes[key] * PX_PER_NEWTON * scale);
+      const start = starts[key];
+      return { key, x1: start.x, y1: start.y, x2: start.x, y2: start.y + FORCES[key].direction * length };
+    });
+  }, [magnitudes, size]);
+
+  const toggleForce = (key: ForceKey) =>
+    setSelected((prev) => {
+      if (prev.includes(key)) return prev.filter((item) => item !== key);
+      return [...prev, key].slice(-2);
+    });
+
+  const draw = useCallback(
+    (ctx: CanvasRenderingContext2D, now: number) => {
+      const { width, height } = size;
+      const { scale, tableTop, tableLeft, tableRight, earthTop, bookX, bookWidth, bookHeight } = getLayout(
+        width,
+        height,
+      );
+
+      ctx.clearRect(0, 0, width, height);
+      drawLayer(ctx, `scene-${width}x${height}`, { x: 0, y: 0, width, height }, (layer) => {
+        const sky = layer.createLinearGradient(0, 0, 0, height);
+        sky.addColorStop(0, '#f0fdf4');
+        sky.addColorStop(1, '#dcfce7');
+        layer.fillStyle = sky;
+        layer.fillRect(0, 0, width, height);
+
+        layer.fillStyle = '#65a30d';
+        layer.fillRect(0, earthTop, width, height - earthTop);
+        layer.fillStyle = 'rgba(20, 83, 45, 0.3)';
+        for (let i = 0; i < width; i += 40 * scale) {
+          layer.fillRect(i, earthTop + 10 * scale, 18 * scale, 6 * scale);
+        }
+        layer.fillStyle = 'rgba(255, 255, 255, 0.85)';
+        layer.font = 'bold 14px "Pretendard", sans-serif';
+        layer.fillText('Earth', 24, height - 24);
+
+        layer.fillStyle = '#92400e';
+        layer.fillRect(tableLeft, tableTop, tableRight - tableLeft, 18 * scale);
+        layer.fillStyle = '#78350f';
+        layer.fillRect(tableLeft + 16 * scale, tableTop + 18 * scale, 14 * scale, earthTop - tableTop - 18 * scale);
+        layer.fillRect(tableRight - 30 * scale, tableTop + 18 * scale, 14 * scale, earthTop - tableTop - 18 * scale);
+
+        layer.fillStyle = '#1d4ed8';
+        layer.fillRect(bookX - bookWidth / 2, tableTop - bookHeight, bookWidth, bookHeight);
+        layer.fillStyle = '#f8fafc';
+        layer.fillRect(bookX - bookWidth / 2 + 6 * scale, tableTop - bookHeight + 6 * scale, bookWidth - 12 * scale, 4);
+        layer.fillRect(bookX - bookWidth / 2 + 6 * scale, tableTop - 10 * scale, bookWidth - 12 * scale, 4);
+      });
+
+      if (handPush > 0) {
+        drawVector(
+          ctx,
+          bookX,
+          tableTop - bookHeight - handPush * PX_PER_NEWTON * scale - 8,
+          bookX,
+          tableTop - bookHeight - 4,
+          {
+            color: '#0f766e',
+            label: 'F_hand',
+            labelPosition: { x: bookX + 10, y: tableTop - bookHeight - 24 },
+            lineWidth: 3,
+            dashed: true,
+          },
+        );
+      }
+
+      const pulse = 0.5 + Math.sin(now / 250) * 0.5;
+      getArrows().forEach(({ key, x1, y1, x2, y2 }) => {
+        const isSelected = selected.includes(key);
+        const dimmed = selected.length === 2 && !isSelected;
+        ctx.globalAlpha = dimmed ? 0.3 : 1;
+        if (isSelected) {
+          ctx.strokeStyle = `rgba(250, 204, 21, ${0.5 + pulse * 0.4})`;
+          ctx.lineWidth = 14;
+          ctx.beginPath();
+          ctx.moveTo(x1, y1);
+          ctx.lineTo(x2, y2);
+          ctx.stroke();
+        }
+        drawVector(ctx, x1, y1, x2, y2, {
+          color: FORCES[key].color,
+          label: FORCES[key].label,
+          labelPosition: { x: x1 + 12, y: (y1 + y2) / 2 },
+          lineWidth: isSelected ? 6 : 4,
+        });
+        ctx.globalAlpha = 1;
+      });
+
+      drawScaleLegend(ctx, width - 200, 36, {
+        unitsPerPx: 1 / (PX_PER_NEWTON * scale),
+        unit: 'N',
+        color: 'rgba(51, 65, 85, 0.85)',
+      });
+    },
+    [drawLayer, getArrows, handPush, selected, size],
+  );
+
+  useRenderLoop(canvasRef, size, draw);
+
+  const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = event.clientX - rect.left;
+    const y = event.clientY - rect.top;
+    const hit = hitTestArrows(
+      getArrows().map(({ key, ...segment }) => ({ id: key, ...segment })),
+      x,
+      y,
+    );
+    if (hit) toggleForce(hit as ForceKey);
+  };
+
+  const verdict =
+    selected.length === 2
+      ? classifyPair(FORCES[selected[0]], FORCES[selected[1]], [magnitudes[selected[0]], magnitudes[selected[1]]])
+      : null;
+
+  return (
+    <Box sx={{ display: 'flex', height: '100%', minHeight: 0, overflow: 'hidden' }}>
+      <Paper
+        elevation={0}
+        sx={{
+          width: 320,
+          height: '100%',
+          borderRight: '1px solid rgba(15, 23, 42, 0.08)',
+          p: 3,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 3,
+          overflow: 'auto',
+          background: 'linear-gradient(180deg, rgba(240, 253, 244, 0.95) 0%, rgba(220, 252, 231, 0.95) 100%)',
+        }}
+      >
+        <Box>
+          <Typography variant="h6" sx={{ mb: 1 }}>
+            Example 3 — Is this a third-law pair?
+          </Typography>
+          <Typography variant="body2" sx={{ color: 'rgba(51, 65, 85, 0.9)' }}>
+            A book rests on a table. Four forces are drawn. Pick any two arrows, on the canvas or below, and check
+            whether they form a third-law pair or are merely balanced.
+          </Typography>
+        </Box>
+        {learningMode && (
+          <Card
+            elevation={0}
+            sx={{
+              borderRadius: 3,
+              bgcolor: 'rgba(59, 130, 246, 0.1)',
+              border: '1px solid rgba(59, 130, 246, 0.35)',
+            }}
+          >
+            <CardContent>
+              <Typography variant="overline" sx={{ color: 'rgba(30, 64, 175, 0.9)' }}>
+                Guided mode
+              </Typography>
+              <Stack spacing={0.6} sx={{ mt: 1 }}>
+                <Typography variant="body2">1) Select the weight and the normal force.</Typography>
+                <Typography variant="body2">2) Press down on the book and compare them again.</Typography>
+                <Typography variant="body2">3) Find the partner of each force.</Typography>
+              </Stack>
+            </CardContent>
+          </Card>
+        )}
+        <Stack spacing={2}>
+          <ControlSlider
+            label="Book Mass"
+            value={bookMass}
+            onChange={setBookMass}
+            min={0.5}
+            max={5}
+            step={0.5}
+            unit="kg"
+          />
+          <ControlSlider
+            label="Press down on the book"
+            value={handPush}
+            onChange={setHandPush}
+            min={0}
+            max={30}
+            unit="N"
+          />
+        </Stack>
+        <Box>
+          <Typography variant="overline" sx={{ color: 'rgba(100, 116, 139, 0.8)' }}>
+            Forces ({selected.length}/2 selected)
+          </Typography>
+          <Stack spacing={1} sx={{ mt: 1 }}>
+            {FORCE_KEYS.map((key) => (
+              <Chip
+                key={key}
+                label={`${FORCES[key].description} (${magnitudes[key].toFixed(1)} N)`}
+                onClick={() => toggleForce(key)}
+                variant={selected.includes(key) ? 'filled' : 'outlined'}
+                sx={{
+                  justifyContent: 'flex-start',
+                  fontWeight: 700,
+                  borderColor: FORCES[key].color,
+                  bgcolor: selected.includes(key) ? `${FORCES[key].color}33` : undefined,
+                  '& .MuiChip-label': { whiteSpace: 'normal', py: 0.5 },
+                  height: 'auto',
+                }}
+              />
+            ))}
+          </Stack>
+          <Button
+            size="small"
+            sx={{ mt: 1, fontWeight: 700 }}
+            disabled={selected.length === 0}
+            onClick={() => setSelected([])}
+          >
+            Clear selection
+          </Button>
+        </Box>
+        {verdict && (
+          <Card
+            elevation={0}
+            sx={{
+              borderRadius: 3,
+              bgcolor: 'rgba(255, 255, 255, 0.9)',
+              border: `2px solid ${VERDICT_COLORS[verdict.kind]}`,
+            }}
+          >
+            <CardContent>
+              <Typography variant="subtitle1" sx={{ fontWeight: 800, color: VERDICT_COLORS[verdict.kind] }}>
+                {verdict.title}
+              </Typography>
+              <Stack spacing={0.75} sx={{ mt: 1 }}>
+                {verdict.reasons.map((reason) => (
+                  <Typography key={reason} variant="body2" sx={{ color: 'rgba(51, 65, 85, 0.9)' }}>
+                    • {reason}
+                  </Typography>
+                ))}
+              </Stack>
+            </CardContent>
+          </Card>
+        )}
+        <Box sx={{ mt: 'auto', pt: 2 }}>
+          <Chip label="Pairs act on different objects" color="primary" sx={{ fontWeight: 700 }} />
+        </Box>
+      </Paper>
+
+      <Box
+        ref={containerRef}
+        sx={{
+          flex: 1,
+          minWidth: 0,
+          height: '100%',
+          position: 'relative',
+          overflow: 'hidden',
+        }}
+      >
+        <canvas ref={canvasRef} onClick={handleCanvasClick} style={{ cursor: 'pointer' }} />
+      </Box>
+    </Box>
+  );
+};
+
+export const balancedForcesDefinition: SimulationDefinition = {
+  path: '/example3',
+  label: 'Example 3: Pair or Balanced?',
+  icon: <MenuBookRounded />,
+  Component: BalancedForcesSimulation,
+  keyConcept:
+    'A third-law pair is one interaction seen from both sides, so its two forces act on different objects. Equal and opposite forces on the same object are balanced, not a pair.',
+  chips: ['Different objects', 'Same interaction', 'Balanced ≠ pair'],
+};
@@ -0,0 +1,681 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Divider,
+  IconButton,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { AutorenewRounded, CompareArrowsRounded, PlayArrowRounded } from '@mui/icons-material';
+import { areaElementClasses, LineChart } from '@mui/x-charts/LineChart';
+import {
+  ControlSlider,
+  drawScaleLegend,
+  drawVector,
+  ForceCard,
+  SimClockControls,
+  SimulationDefinition,
+  useCachedLayers,
+  useElementSize,
+  useRenderLoop,
+  useSimulationClock,
+} from './simShared';
+
+type Cart = { x: number; velocity: number };
+type ForceSample = { t: number; force: number };
+type Outcome = { velocityA: number; velocityB: number; impulse: number };
+type RunResult = { massA: number; massB: number; velocityA: number; velocityB: number; outcome: Outcome };
+
+const TRACK_LENGTH_M = 4;
+const CART_LENGTH_M = 0.3;
+const CONTACT_TIME_S = 0.12;
+const FORCE_SAMPLE_S = 0.002;
+const NEWTONS_PER_PX = 0.5;
+const PX_PER_MPS = 50;
+
+const createCarts = () => ({ a: { x: -1.2, velocity: 0 } as Cart, b: { x: 0.4, velocity: 0 } as Cart });
+
+// Momentum is shared through one impulse J acting on both carts. With reduced mass μ = m_A·m_B / (m_A + m_B) and
+// restitution e, J = (1 + e)·μ·(v_A − v_B): e = 1 keeps kinetic energy, e = 0 leaves the carts moving together.
+const calculateCollision = (
+  massA: number,
+  massB: number,
+  velocityA: number,
+  velocityB: number,
+  restitution: number,
+): Outcome => {
+  const reducedMass = (massA * massB) / (massA + massB);
+  const impulse = (1 + restitution) * reducedMass * Math.max(0, velocityA - velocityB);
+  return { velocityA: velocityA - impulse / massA, velocityB: velocityB + impulse / massB, impulse };
+};
+
+// The bumper force is a half-sine pulse over the contact time whose area is J; integrating it exactly per tick keeps
+// the final velocities on the analytic values.
+const pulseImpulse = (impulse: number, from: number, to: number) =>
+  (impulse / 2) * (Math.cos((Math.PI * from) / CONTACT_TIME_S) - Math.cos((Math.PI * to) / CONTACT_TIME_S));
+
+const pulseForce = (impulse: number, t: number) =>
+  ((Math.PI * impulse) / (2 * CONTACT_TIME_S)) * Math.sin((Math.PI * t) / CONTACT_TIME_S);
+
+const getLayout = (width: number, height: number) => {
+  const scale = height / 600;
+  const trackLeft = 48;
+  const trackRight = width - 48;
+  return {
+    scale,
+    trackY: height * 0.62,
+    centerX: (trackLeft + trackRight) / 2,
+    trackLeft,
+    trackRight,
+    pxPerMeter: (trackRight - trackLeft) / TRACK_LENGTH_M,
+  };
+};
+
+const CollisionForceChart = ({ samples }: { samples: ForceSample[] }) => (
+  <Box sx={{ flex: 1, minWidth: 0, position: 'relative' }}>
+    <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ px: 3, pt: 1.5 }}>
+      <Typography variant="subtitle2" sx={{ fontWeight: 800 }}>
+        Force–time graph during the collision
+      </Typography>
+      <Typography variant="caption" sx={{ color: 'rgba(51, 65, 85, 0.85)' }}>
+        Mirror-image curves: equal and opposite at every instant
+      </Typography>
+    </Stack>
+    <LineChart
+      height={180}
+      skipAnimation
+      margin={{ left: 16, right: 24, top: 8, bottom: 8 }}
+      xAxis={[
+        { data: samples.map((sample) => sample.t), label: 'Time (ms)', valueFormatter: (t: number) => t.toFixed(0) },
+      ]}
+      yAxis={[{ label: 'Force (N)' }]}
+      series={[
+        {
+          data: samples.map((sample) => sample.force),
+          label: 'F_A→B (on cart B)',
+          color: '#ef4444',
+          area: true,
+          baseline: 0,
+          showMark: false,
+        },
+        {
+          data: samples.map((sample) => -sample.force),
+          label: 'F_B→A (on cart A)',
+          color: '#3b82f6',
+          area: true,
+          baseline: 0,
+          showMark: false,
+        },
+      ]}
+      sx={{ [`& .${areaElementClasses.root}`]: { fillOpacity: 0.2 } }}
+    />
+    {samples.length === 0 && (
+      <Typography
+        variant="caption"
+        sx={{
+          position: 'absolute',
+          top: '50%',
+          left: '50%',
+          transform: 'translate(-50%, -50%)',
+          fontWeight: 700,
+          color: 'rgba(51, 65, 85, 0.7)',
+        }}
+      >
+        Run the carts to record the collision force
+      </Typography>
+    )}
+  </Box>
+);
+
+const ResultsTable = ({
+  massA,
+  massB,
+  velocityA,
+  velocityB,
+  outcome,
+}: {
+  massA: number;
+  massB: number;
+  velocityA: number;
+  velocityB: number;
+  outcome: Outcome | null;
+}) => {
+  const after = (value: number) => (outcome ? value.toFixed(2) : '--');
+  const rows = [
+    { name: 'Cart A', mass: massA, before: velocityA, after: outcome?.velocityA ?? 0 },
+    { name: 'Cart B', mass: massB, before: velocityB, after: outcome?.velocityB ?? 0 },
+  ];
+  const kinetic = (mass: number, velocity: number) => 0.5 * mass * velocity * velocity;
+
+  return (
+    <Box sx={{ width: 440, flexShrink: 0, borderLeft: '1px solid rgba(15, 23, 42, 0.1)', px: 2, pt: 1.5 }}>
+      <Typography variant="subtitle2" sx={{ fontWeight: 800 }}>
+        Results
+      </Typography>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell />
+            <TableCell align="right">v before (m/s)</TableCell>
+            <TableCell align="right">v after (m/s)</TableCell>
+            <TableCell align="right">p before (kg·m/s)</TableCell>
+            <TableCell align="right">p after (kg·m/s)</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={row.name}>
+              <TableCell sx={{ fontWeight: 700 }}>{row.name}</TableCell>
+              <TableCell align="right">{row.before.toFixed(2)}</TableCell>
+              <TableCell align="right">{after(row.after)}</TableCell>
+              <TableCell align="right">{(row.mass * row.before).toFixed(2)}</TableCell>
+              <TableCell align="right">{after(row.mass * row.after)}</TableCell>
+            </TableRow>
+          ))}
+          <TableRow>
+            <TableCell sx={{ fontWeight: 800 }}>Total</TableCell>
+            <TableCell />
+            <TableCell />
+            <TableCell align="right" sx={{ fontWeight: 800 }}>
+              {(massA * velocityA + massB * velocityB).toFixed(2)}
+            </TableCell>
+            <TableCell align="right" sx={{ fontWeight: 800 }}>
+              {outcome ? (massA * outcome.velocityA + massB * outcome.velocityB).toFixed(2) : '--'}
+            </TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+      <Typography variant="caption" sx={{ display: 'block', mt: 1, color: 'rgba(51, 65, 85, 0.85)' }}>
+        Kinetic energy: {(kinetic(massA, velocityA) + kinetic(massB, velocityB)).toFixed(2)} J before
+        {outcome
+          ? `, ${(kinetic(massA, outcome.velocityA) + kinetic(massB, outcome.velocityB)).toFixed(2)} J after`
+          : ''}
+      </Typography>
+    </Box>
+  );
+};
+
+export const CartCollisionSimulation = ({ learningMode }: { learningMode: boolean }) => {
+  const [massA, setMassA] = useState(2);
+  const [massB, setMassB] = useState(1);
+  const [velocityA, setVelocityA] = useState(1.5);
+  const [velocityB, setVelocityB] = useState(-0.5);
+  const [restitution, setRestitution] = useState(1);
+  const [phase, setPhase] = useState<'ready' | 'running' | 'contact' | 'done'>('ready');
+  const [contactForce, setContactForce] = useState(0);
+  const [forceTrace, setForceTrace] = useState<ForceSample[]>([]);
+  const [result, setResult] = useState<RunResult | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const size = useElementSize(containerRef);
+  const clock = useSimulationClock();
+  const advanceClock = clock.advance;
+  const drawLayer = useCachedLayers();
+  const stateRef = useRef({
+    phase: 'ready' as typeof phase,
+    carts: createCarts(),
+    contactTime: 0,
+    impulse: 0,
+    force: 0,
+    collided: false,
+  });
+
+  const clearRun = useCallback(() => {
+    stateRef.current = {
+      phase: 'ready',
+      carts: createCarts(),
+      contactTime: 0,
+      impulse: 0,
+      force: 0,
+      collided: false,
+    };
+    setPhase('ready');
+    setContactForce(0);
+  }, []);
+
+  const reset = useCallback(() => {
+    clearRun();
+    setForceTrace([]);
+    setResult(null);
+  }, [clearRun]);
+
+  // Changing an input only stops the carts; the last collision's graph and results stay up for comparison.
+  useEffect(() => {
+    clearRun();
+  }, [massA, massB, velocityA, velocityB, restitution, clearRun]);
+
+  const tick = useCallback(
+    (dt: number) => {
+      const state = stateRef.current;
+      if (state.phase !== 'running' && state.phase !== 'contact') return;
+      const { a, b } = state.carts;
+
+      // One collision per run: after a perfectly inelastic pulse the carts stay touching, and rounding can leave
+      // a.velocity a hair above b.velocity, which must not start a second contact.
+      if (state.phase === 'running' && !state.collided && b.x - a.x <= CART_LENGTH_M && a.velocity > b.velocity) {
+        state.phase = 'contact';
+        state.collided = true;
+        state.contactTime = 0;
+        state.impulse = calculateCollision(massA, massB, a.velocity, b.velocity, restitution).impulse;
+        setPhase('contact');
+        setForceTrace([{ t: 0, force: 0 }]);
+      }
+      if (state.phase === 'contact') {
+        const from = state.contactTime;
+        const to = Math.min(CONTACT_TIME_S, from + dt);
+        const deltaP = pulseImpulse(state.impulse, from, to);
+        a.velocity -= deltaP / massA;
+        b.velocity += deltaP / massB;
+        state.contactTime = to;
+        state.force = pulseForce(state.impulse, to);
+        setContactForce(state.force);
+        const samples: ForceSample[] = [];
+        for (let step = Math.floor(from / FORCE_SAMPLE_S) + 1; step * FORCE_SAMPLE_S < to; step += 1) {
+          samples.push({ t: step * FORCE_SAMPLE_S * 1000, force: pulseForce(state.impulse, step * FORCE_SAMPLE_S) });
+        }
+        samples.push({ t: to * 1000, force: state.force });
+        setForceTrace((prev) => [...prev, ...samples]);
+        if (to >= CONTACT_TIME_S) {
+          state.phase = 'running';
+          state.force = 0;
+          setPhase('running');
+          setContactForce(0);
+          setResult({
+            massA,
+            massB,
+            velocityA,
+            velocityB,
+            outcome: { velocityA: a.velocity, velocityB: b.velocity, impulse: state.impulse },
+          });
+        }
+      }
+
+      a.x += a.velocity * dt;
+      b.x += b.velocity * dt;
+      const limit = TRACK_LENGTH_M / 2 - CART_LENGTH_M / 2;
+      if (Math.abs(a.x) >= limit || Math.abs(b.x) >= limit) {
+        a.x = Math.max(-limit, Math.min(limit, a.x));
+        b.x = Math.max(-limit, Math.min(limit, b.x));
+        state.phase = 'done';
+        setPhase('done');
+      }
+    },
+    [massA, massB, restitution, velocityA, velocityB],
+  );
+
+  const draw = useCallback(
+    (ctx: CanvasRenderingContext2D) => {
+      const { width, height } = size;
+      const { scale, trackY, centerX, trackLeft, trackRight, pxPerMeter } = getLayout(width, height);
+      const state = stateRef.current;
+      const { a, b } = state.carts;
+
+      ctx.clearRect(0, 0, width, height);
+      drawLayer(ctx, `track-${width}x${height}`, { x: 0, y: 0, width, height }, (layer) => {
+        const wall = layer.createLinearGradient(0, 0, 0, height);
+        wall.addColorStop(0, '#f8fafc');
+        wall.addColorStop(1, '#e2e8f0');
+        layer.fillStyle = wall;
+        layer.fillRect(0, 0, width, height);
+        layer.fillStyle = '#94a3b8';
+        layer.fillRect(trackLeft - 8, trackY, trackRight - trackLeft + 16, 10 * scale);
+        layer.fillStyle = '#475569';
+        layer.fillRect(trackLeft - 14, trackY - 30 * scale, 8, 40 * scale);
+        layer.fillRect(trackRight + 6, trackY - 30 * scale, 8, 40 * scale);
+        layer.fillStyle = 'rgba(51, 65, 85, 0.75)';
+        layer.font = '600 11px "Pretendard", sans-serif';
+        for (let meters = -TRACK_LENGTH_M / 2; meters <= TRACK_LENGTH_M / 2; meters += 0.5) {
+          const x = centerX + meters * pxPerMeter;
+          layer.fillRect(x - 1, trackY + 10 * scale, 2, 6);
+          layer.fillText(`${meters.toFixed(1)} m`, x - 14, trackY + 10 * scale + 20);
+        }
+      });
+
+      const cartWidth = CART_LENGTH_M * pxPerMeter;
+      const cartHeight = 46 * scale;
+      const carts = [
+        { cart: a, mass: massA, color: '#2563eb', label: 'A', velocityLabel: 'v_A' },
+        { cart: b, mass: massB, color: '#dc2626', label: 'B', velocityLabel: 'v_B' },
+      ];
+      carts.forEach(({ cart, mass, color, label, velocityLabel }) => {
+        const x = centerX + cart.x * pxPerMeter;
+        const bodyHeight = cartHeight * (0.7 + mass / 10);
+        ctx.fillStyle = color;
+        ctx.fillRect(x - cartWidth / 2, trackY - 12 * scale - bodyHeight, cartWidth, bodyHeight);
+        ctx.fillStyle = '#1e293b';
+        [-0.3, 0.3].forEach((offset) => {
+          ctx.beginPath();
+          ctx.arc(x + offset * cartWidth, trackY - 6 * scale, 6 * scale, 0, Math.PI * 2);
+          ctx.fill();
+        });
+        ctx.fillStyle = '#f8fafc';
+        ctx.font = 'bold 14px "Pretendard", sans-serif';
+        ctx.fillText(`${label} · ${mass} kg`, x - 26, trackY - 12 * scale - bodyHeight / 2 + 5);
+        if (Math.abs(cart.velocity) > 1e-3) {
+          const vectorY = trackY - 12 * scale - bodyHeight - 18 * scale;
+          const tipX = x + cart.velocity * PX_PER_MPS * scale;
+          drawVector(ctx, x, vectorY, tipX, vectorY, {
+            color,
+            label: velocityLabel,
+            labelPosition: { x: (x + tipX) / 2 - 10, y: vectorY - 12 },
+            lineWidth: 3,
+            dashed: true,
+          });
+        }
+      });
+
+      if (state.phase === 'contact' && state.force > 0) {
+        const length = Math.max(12 * scale, (state.force / NEWTONS_PER_PX) * scale);
+        const contactX = centerX + ((a.x + b.x) / 2) * pxPerMeter;
+        const forceY = trackY + 70 * scale;
+        drawVector(ctx, contactX + 4, forceY, contactX + 4 + length, forceY, {
+          color: '#ef4444',
+          label: 'F_A→B',
+          labelPosition: { x: contactX + 10, y: forceY + 24 },
+        });
+        drawVector(ctx, contactX - 4, forceY, contactX - 4 - length, forceY, {
+          color: '#3b82f6',
+          label: 'F_B→A',
+          labelPosition: { x: contactX - 60, y: forceY + 24 },
+        });
+      }
+
+      drawScaleLegend(ctx, width - 220, 36, {
+        unitsPerPx: NEWTONS_PER_PX / scale,
+        unit: 'N',
+        color: 'rgba(51, 65, 85, 0.85)',
+      });
+    },
+    [drawLayer, massA, massB, size],
+  );
+
+  useRenderLoop(canvasRef, size, (ctx, now) => {
+    advanceClock(now, tick);
+    draw(ctx);
+  });
+
+  const handleRun = () => {
+    reset();
+    const state = stateRef.current;
+    state.carts.a.velocity = velocityA;
+    state.carts.b.velocity = velocityB;
+    state.phase = 'running';
+    setPhase('running');
+  };
+
+  const willCollide = velocityA > velocityB;
+  const shownRun = result ?? { massA, massB, velocityA, velocityB, outcome: null };
+  const isBusy = phase === 'running' || phase === 'contact';
+  const predicted = calculateCollision(massA, massB, velocityA, velocityB, restitution);
+
+  return (
+    <Box sx={{ display: 'flex', height: '100%', minHeight: 0, overflow: 'hidden' }}>
+      <Paper
+        elevation={0}
+        sx={{
+          width: 320,
+          height: '100%',
+          borderRight: '1px solid rgba(15, 23, 42, 0.08)',
+          p: 3,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 3,
+          overflow: 'auto',
+          background: 'linear-gradient(180deg, rgba(245, 243, 255, 0.95) 0%, rgba(237, 233, 254, 0.95) 100%)',
+        }}
+      >
+        <Box>
+          <Typography variant="h6" sx={{ mb: 1 }}>
+            Example 6 — Cart collision lab
+          </Typography>
+          <Typography variant="body2" sx={{ color: 'rgba(51, 65, 85, 0.9)' }}>
+            Two carts meet on a frictionless track. While their bumpers touch:
+          </Typography>
+          <Stack spacing={0.5} sx={{ mt: 1 }}>
+            <Typography variant="body2">• cart A pushes cart B with F_A→B</Typography>
+            <Typography variant="body2">• cart B pushes cart A with F_B→A</Typography>
+          </Stack>
+        </Box>
+        {learningMode && (
+          <Card
+            elevation={0}
+            sx={{
+              borderRadius: 3,
+              bgcolor: 'rgba(59, 130, 246, 0.1)',
+              border: '1px solid rgba(59, 130, 246, 0.35)',
+            }}
+          >
+            <CardContent>
+              <Typography variant="overline" sx={{ color: 'rgba(30, 64, 175, 0.9)' }}>
+                Guided mode
+              </Typography>
+              <Stack spacing={0.6} sx={{ mt: 1 }}>
+                <Typography variant="body2">1) Run an elastic collision and read the table.</Typography>
+                <Typography variant="body2">2) Slide restitution to 0 and run it again.</Typography>
+                <Typography variant="body2">3) Compare the momentum totals, then the energies.</Typography>
+              </Stack>
+            </CardContent>
+          </Card>
+        )}
+        <Stack spacing={2}>
+          <ControlSlider
+            label="Cart A Mass"
+            value={massA}
+            onChange={setMassA}
+            min={0.5}
+            max={5}
+            step={0.5}
+            unit="kg"
+            disabled={isBusy}
+          />
+          <ControlSlider
+            label="Cart A Velocity"
+            value={velocityA}
+            onChange={setVelocityA}
+            min={0}
+            max={3}
+            step={0.1}
+            unit="m/s"
+            formatValue={(value) => value.toFixed(1)}
+            disabled={isBusy}
+          />
+          <ControlSlider
+            label="Cart B Mass"
+            value={massB}
+            onChange={setMassB}
+            min={0.5}
+            max={5}
+            step={0.5}
+            unit="kg"
+            disabled={isBusy}
+          />
+          <ControlSlider
+            label="Cart B Velocity"
+            value={velocityB}
+            onChange={setVelocityB}
+            min={-3}
+            max={3}
+            step={0.1}
+            unit="m/s"
+            formatValue={(value) => value.toFixed(1)}
+            disabled={isBusy}
+          />
+          <ControlSlider
+            label="Restitution"
+            value={restitution}
+            onChange={setRestitution}
+            min={0}
+            max={1}
+            step={0.05}
+            formatValue={(value) => (value === 0 ? '0 (sticks)' : value === 1 ? '1 (elastic)' : value.toFixed(2))}
+            disabled={isBusy}
+          />
+        </Stack>
+        <Box
+          sx={{
+            borderRadius: 3,
+            bgcolor: 'rgba(255, 255, 255, 0.7)',
+            border: '1px solid rgba(15, 23, 42, 0.1)',
+            px: 2,
+            py: 1.5,
+          }}
+        >
+          <Typography variant="overline" sx={{ color: 'rgba(100, 116, 139, 0.8)' }}>
+            Collision model
+          </Typography>
+          <Typography variant="caption" sx={{ display: 'block' }}>
+            Impulse J = (1 + e)·μ·(v_A − v_B) = {predicted.impulse.toFixed(2)} N·s
+          </Typography>
+          <Typography variant="caption" sx={{ display: 'block' }}>
+            Average force F = J / Δt = {(predicted.impulse / CONTACT_TIME_S).toFixed(1)} N
+          </Typography>
+          <Typography variant="caption" sx={{ display: 'block' }}>
+            Contact time Δt = {CONTACT_TIME_S * 1000} ms
+          </Typography>
+        </Box>
+        <Divider />
+        <Stack direction="row" spacing={1}>
+          <Button
+            variant="contained"
+            fullWidth
+            onClick={handleRun}
+            disabled={isBusy || !willCollide}
+            startIcon={<PlayArrowRounded />}
+            sx={{ py: 1.2, fontWeight: 700 }}
+          >
+            Run
+          </Button>
+          <IconButton
+            onClick={reset}
+            disabled={isBusy}
+            sx={{
+              border: '1px solid rgba(15, 23, 42, 0.2)',
+              borderRadius: 2,
+            }}
+          >
+            <AutorenewRounded />
+          </IconButton>
+        </Stack>
+        {!willCollide && (
+          <Typography variant="caption" sx={{ color: 'rgba(185, 28, 28, 0.9)', fontWeight: 700 }}>
+            Cart A must move faster to the right than cart B, or they never meet.
+          </Typography>
+        )}
+        <SimClockControls clock={clock} />
+        <Card
+          elevation={0}
+          sx={{
+            borderRadius: 3,
+            bgcolor: 'rgba(15, 23, 42, 0.06)',
+            border: '1px solid rgba(15, 23, 42, 0.1)',
+          }}
+        >
+          <CardContent>
+            <Typography variant="overline" sx={{ color: 'rgba(100, 116, 139, 0.8)' }}>
+              What to observe
+            </Typography>
+            <Typography variant="body2" sx={{ mt: 1, color: 'rgba(51, 65, 85, 0.85)' }}>
+              Restitution changes how hard and how long the carts push, yet the two force curves always mirror each
+              other. That is why the momentum total never changes, even when kinetic energy is lost.
+            </Typography>
+          </CardContent>
+        </Card>
+        <Box sx={{ mt: 'auto', pt: 2 }}>
+          <Chip label="Σp before = Σp after" color="primary" sx={{ fontWeight: 700 }} />
+        </Box>
+      </Paper>
+
+      <Box sx={{ flex: 1, minWidth: 0, height: '100%', display: 'flex', flexDirection: 'column' }}>
+        <Box
+          ref={containerRef}
+          sx={{
+            flex: 1,
+            minHeight: 0,
+            position: 'relative',
+            overflow: 'hidden',
+          }}
+        >
+          <Stack direction="row" spacing={2} sx={{ position: 'absolute', top: 24, left: 24, zIndex: 2 }}>
+            <ForceCard
+              title="Force on cart B"
+              value={phase === 'contact' ? `${contactForce.toFixed(1)} N` : '--'}
+              color="#ef4444"
+              sub="F_A→B"
+            />
+            <Typography variant="h4" sx={{ fontWeight: 800, color: 'rgba(51, 65, 85, 0.6)' }}>
+              =
+            </Typography>
+            <ForceCard
+              title="Force on cart A"
+              value={phase === 'contact' ? `${contactForce.toFixed(1)} N` : '--'}
+              color="#3b82f6"
+              sub="F_B→A"
+            />
+          </Stack>
+          <canvas ref={canvasRef} />
+
+          {phase === 'done' && !result && (
+            <Paper
+              elevation={0}
+              sx={{
+                position: 'absolute',
+                bottom: 28,
+                left: '50%',
+                transform: 'translateX(-50%)',
+                px: 3,
+                py: 1.2,
+                borderRadius: 999,
+                bgcolor: 'rgba(255,255,255,0.85)',
+                border: '1px solid rgba(15, 23, 42, 0.08)',
+                boxShadow: '0 12px 24px rgba(15, 23, 42, 0.08)',
+              }}
+            >
+              <Typography variant="caption" sx={{ fontWeight: 700, color: 'rgba(51, 65, 85, 0.85)' }}>
+                A cart reached the end of the track before they met
+              </Typography>
+            </Paper>
+          )}
+        </Box>
+        <Box
+          sx={{
+            height: 220,
+            flexShrink: 0,
+            display: 'flex',
+            borderTop: '1px solid rgba(15, 23, 42, 0.1)',
+            bgcolor: 'rgba(255, 255, 255, 0.92)',
+          }}
+        >
+          <CollisionForceChart samples={forceTrace} />
+          <ResultsTable
+            massA={shownRun.massA}
+            massB={shownRun.massB}
+            velocityA={shownRun.velocityA}
+            velocityB={shownRun.velocityB}
+            outcome={shownRun.outcome}
+          />
+        </Box>
+      </Box>
+    </Box>
+  );
+};
+
+export const cartCollisionDefinition: SimulationDefinition = {
+  path: '/example6',
+  label: 'Example 6: Cart Collisions',
+  icon: <CompareArrowsRounded />,
+  Component: CartCollisionSimulation,
+  keyConcept:
+    'During a collision the carts push on each other with equal and opposite forces at every instant, so the momentum one cart loses is exactly what the other gains.',
+  chips: ['Equal impulse', 'Momentum conserved', 'Energy may be lost'],
+};
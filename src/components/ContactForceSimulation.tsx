@@ -5,9 +5,6 @@ import {
   Card,
   CardContent,
   Chip,
-  Dialog,
-  DialogContent,
-  DialogTitle,
   Divider,
   IconButton,
   Paper,
@@ -15,196 +12,547 @@ import {
   Switch,
   Typography,
 } from '@mui/material';
-import { AutorenewRounded, PlayArrowRounded } from '@mui/icons-material';
-import { ControlSlider, ForceCard, useElementSize } from './simShared';
+import { AutorenewRounded, GavelRounded, PlayArrowRounded } from '@mui/icons-material';
+import { areaElementClasses, LineChart } from '@mui/x-charts/LineChart';
+import { GuidedStep, GuidedSteps, useGuidedActivity } from './GuidedSteps';
+import { PredictionCard, PredictionPrompts, usePrediction } from './PredictionCard';
+import { QuizCard, QuizQuestion, useQuiz } from './QuizCard';
+import { TrialColumn, TrialTable, useTrialLog } from './TrialTable';
+import {
+  ArrowRegion,
+  ControlSlider,
+  drawScaleLegend,
+  drawVector,
+  drawVectorLabel,
+  exportScene,
+  ForceCard,
+  hitTestArrows,
+  RecordControls,
+  SceneExportControls,
+  SimClockControls,
+  SimulationDefinition,
+  SimulationProps,
+  TextbookPage,
+  useCachedLayers,
+  useCanvasRecorder,
+  useElementSize,
+  useRenderLoop,
+  useSimulationClock,
+} from './simShared';
+
+type Impact = { force: number; peakForce: number; depthMm: number; contactMs: number; active: boolean };
+type ForceSample = { t: number; force: number };
+
+const NAIL_LENGTH_MM = 70;
+const CONTACT_TICKS = 32;
+// Simulation seconds the hammer rests on the nail before the pulse plays, so pause and time scale apply to it.
+const CONTACT_HOLD_S = 3;
+const NEWTONS_PER_PX = 80;
+const NAIL_MASS_KG = 0.01;
+const GRAVITY_ACCEL = 9.8;
+const IDLE_IMPACT: Impact = { force: 0, peakForce: 0, depthMm: 0, contactMs: 0, active: false };
+const TEXTBOOK: TextbookPage = {
+  title: 'Textbook explanation — Example 1',
+  src: '/textbook_example1.png',
+  alt: 'Textbook Example 1: Contact force between a hammer and a nail',
+};
+
+const QUESTIONS: QuizQuestion[] = [
+  {
+    id: 'heavier-hammer',
+    kind: 'choice',
+    prompt: 'If the hammer is heavier, does it push harder on the nail than the nail pushes back on it?',
+    choices: [
+      {
+        id: 'yes',
+        label: 'Yes, the heavier object always pushes harder',
+        feedback: 'A heavier hammer makes the pair larger, but it makes both forces larger together.',
+      },
+      { id: 'equal', label: 'No, F_H and F_N are always equal in size' },
+      {
+        id: 'nail',
+        label: 'No, the nail pushes harder because it stops the hammer',
+        feedback: 'The nail does stop the hammer, but it pushes on the hammer exactly as hard as it is pushed.',
+      },
+    ],
+    answer: 'equal',
+    explanation:
+      'F_H and F_N come from one interaction. The hammer’s mass changes the motion, not the balance of the pair.',
+  },
+  {
+    id: 'force-on-hammer',
+    kind: 'arrow',
+    prompt: 'Click the arrow for the force that acts on the hammer.',
+    hint: 'Click an arrow on the canvas. They appear during contact and in the diagram view.',
+    answer: 'F_N',
+    feedback: { F_H: 'F_H is exerted by the hammer and acts on the nail. Look for the force the nail exerts.' },
+    explanation: 'F_N is the nail’s push on the hammer. It points up, opposite to the hammer’s motion.',
+  },
+  {
+    id: 'average-force',
+    kind: 'numeric',
+    prompt: 'A 2 kg hammer hits the nail at 5 m/s and stops in 5 ms. How large is the average force on the hammer?',
+    answer: 2000,
+    tolerance: 20,
+    unit: 'N',
+    mistakes: [
+      { value: 10, feedback: '10 kg·m/s is the momentum change Δp. Divide it by the contact time.' },
+      { value: 2, feedback: 'Convert 5 ms to 0.005 s before dividing Δp by Δt.' },
+    ],
+    explanation:
+      'F = Δp / Δt = (2 kg × 5 m/s) / 0.005 s = 2000 N, and the hammer pushes the nail with the same 2000 N.',
+  },
+  {
+    id: 'different-motion',
+    kind: 'choice',
+    prompt: 'During contact the hammer stops sharply, but the nail only creeps into the wood. Why?',
+    choices: [
+      {
+        id: 'smaller',
+        label: 'The nail feels a smaller force than the hammer',
+        feedback: 'Both feel the same force. Think about what else is acting on the nail.',
+      },
+      { id: 'wood', label: 'The wood also pushes on the nail and resists its motion' },
+      {
+        id: 'vanishes',
+        label: 'The hammer’s force disappears once they touch',
+        feedback: 'F_H lasts for the whole contact; it is what drives the nail in.',
+      },
+    ],
+    answer: 'wood',
+    explanation:
+      'The pair forces are equal, but the nail also feels the wood’s resistance. Motion depends on all forces.',
+  },
+];
+
+const GUIDED_STEPS: GuidedStep[] = [
+  { label: 'Switch to Explore view.', hint: 'Flip the View mode switch to Explore.', events: ['view-explore'] },
+  { label: 'Set the hammer mass.', hint: 'Drag the Hammer Mass slider.', events: ['mass-changed'] },
+  { label: 'Set the swing speed.', hint: 'Drag the Swing Speed slider.', events: ['speed-changed'] },
+  { label: 'Press Strike.', hint: 'The hammer swings down towards the nail.', events: ['strike'] },
+  { label: 'Reach contact.', hint: 'Compare F_H and F_N when the hammer touches the nail.', events: ['contact'] },
+];
+
+const TRIAL_COLUMNS: TrialColumn[] = [
+  { field: 'mass', headerName: 'Mass (kg)' },
+  { field: 'speed', headerName: 'Speed (m/s)' },
+  { field: 'forceH', headerName: 'F_H (N)' },
+  { field: 'forceN', headerName: 'F_N (N)' },
+  { field: 'depth', headerName: 'Nail depth (mm)', format: (value) => value.toFixed(1) },
+];
+
+const PREDICTION: PredictionPrompts = {
+  question: 'When the hammer hits the nail, which force will be larger?',
+  options: [
+    { id: 'hammer', label: 'F_H — the hammer pushes harder' },
+    { id: 'nail', label: 'F_N — the nail pushes harder' },
+    { id: 'equal', label: 'They are equal' },
+  ],
+  explainPrompt: 'Why are the two forces the size you observed, even though the hammer is much heavier?',
+  explanation:
+    'F_H and F_N are one interaction, so they are always equal. A heavier hammer makes both larger, never just one.',
+};
+
+// The hammer's kinetic energy is spent driving the nail against the wood, d = ½mv² / R (capped at the nail's length).
+// Stopping at a steady rate over d takes Δt = 2d / v, so F_avg = Δp / Δt = m·v / Δt and F_avg·d = ½mv² always
+// holds; below the cap this is just F_avg = R. The force follows a half-sine pulse, so F_peak = (π / 2)·F_avg.
+const calculateContact = (mass: number, velocity: number, woodResistance: number) => {
+  const momentum = mass * velocity;
+  const kineticEnergy = 0.5 * mass * velocity * velocity;
+  const penetrationMm = (kineticEnergy / woodResistance) * 1000;
+  const depthMm = Math.min(NAIL_LENGTH_MM, penetrationMm);
+  const contactTimeMs = (2 * depthMm) / velocity;
+  const averageForce = momentum / (contactTimeMs / 1000);
+  return {
+    momentum,
+    kineticEnergy,
+    contactTimeMs,
+    averageForce: Math.round(averageForce),
+    peakForce: Math.round((Math.PI / 2) * averageForce),
+    depthMm,
+    fullyDriven: penetrationMm >= NAIL_LENGTH_MM,
+  };
+};
+
+const ForceTimeChart = ({ samples }: { samples: ForceSample[] }) => {
+  let impulse = 0;
+  for (let i = 1; i < samples.length; i += 1) {
+    impulse += ((samples[i].force + samples[i - 1].force) / 2) * ((samples[i].t - samples[i - 1].t) / 1000);
+  }
+
+  return (
+    <Box
+      sx={{
+        height: 220,
+        flexShrink: 0,
+        borderTop: '1px solid rgba(15, 23, 42, 0.1)',
+        bgcolor: 'rgba(255, 255, 255, 0.92)',
+        position: 'relative',
+      }}
+    >
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ px: 3, pt: 1.5 }}>
+        <Typography variant="subtitle2" sx={{ fontWeight: 800 }}>
+          Force–time graph during contact
+        </Typography>
+        <Typography variant="caption" sx={{ color: 'rgba(51, 65, 85, 0.85)' }}>
+          Shaded area = impulse J = {impulse.toFixed(2)} N·s
+        </Typography>
+      </Stack>
+      <LineChart
+        height={180}
+        skipAnimation
+        margin={{ left: 16, right: 24, top: 8, bottom: 8 }}
+        xAxis={[
+          { data: samples.map((sample) => sample.t), label: 'Time (ms)', valueFormatter: (t: number) => t.toFixed(1) },
+        ]}
+        yAxis={[{ label: 'Force (N)' }]}
+        series={[
+          {
+            data: samples.map((sample) => sample.force),
+            label: 'F_H (on nail)',
+            color: '#ef4444',
+            area: true,
+            baseline: 0,
+            showMark: false,
+          },
+          {
+            data: samples.map((sample) => -sample.force),
+            label: 'F_N (on hammer)',
+            color: '#3b82f6',
+            area: true,
+            baseline: 0,
+            showMark: false,
+          },
+        ]}
+        sx={{ [`& .${areaElementClasses.root}`]: { fillOpacity: 0.2 } }}
+      />
+      {samples.length === 0 && (
+        <Typography
+          variant="caption"
+          sx={{
+            position: 'absolute',
+            top: '50%',
+            left: '50%',
+            transform: 'translate(-50%, -50%)',
+            fontWeight: 700,
+            color: 'rgba(51, 65, 85, 0.7)',
+          }}
+        >
+          Strike the nail to record F_H and F_N
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+const getLayout = (width: number, height: number, split = false) => {
+  const scale = height / 600;
+  return {
+    scale,
+    groundY: height * 0.72,
+    nailHeight: 70 * scale,
+    hammerHeadHeight: 40 * scale,
+    hammerHeadWidth: 70 * scale,
+    hammerHandleHeight: 110 * scale,
+    nailX: width * (split ? 0.3 : 0.5),
+  };
+};
+
+type FreeBodyForces = { pair: number; hammerWeight: number; nailWeight: number; resistance: number };
+
+// One panel per object, each showing only the forces acting on that object. The 3rd-law pair (F_N on the hammer,
+// F_H on the nail) lives in different panels and is tied together by a dashed connector.
+const drawFreeBodyPanels = (
+  ctx: CanvasRenderingContext2D,
+  box: { x: number; y: number; width: number; height: number },
+  forces: FreeBodyForces,
+  scale: number,
+  isDiagram: boolean,
+) => {
+  const ink = 'rgba(15, 23, 42, 0.85)';
+  const colors = {
+    hammerOnNail: isDiagram ? ink : '#ef4444',
+    nailOnHammer: isDiagram ? ink : '#3b82f6',
+    weight: isDiagram ? ink : '#64748b',
+    resistance: isDiagram ? ink : '#b45309',
+    connector: isDiagram ? ink : '#7c3aed',
+  };
+  const gap = 16;
+  const panelWidth = (box.width - gap) / 2;
+  const maxLength = box.height * 0.34;
+  const lengthFor = (force: number) => Math.min(maxLength, Math.max(12 * scale, (force / NEWTONS_PER_PX) * scale));
 
-export const ContactForceSimulation = ({ learningMode }: { learningMode: boolean }) => {
+  const panel = (x: number, title: string) => {
+    ctx.fillStyle = isDiagram ? '#ffffff' : 'rgba(255, 255, 255, 0.9)';
+    ctx.fillRect(x, box.y, panelWidth, box.height);
+    ctx.strokeStyle = 'rgba(15, 23, 42, 0.18)';
+    ctx.lineWidth = 1.5;
+    ctx.strokeRect(x, box.y, panelWidth, box.height);
+    ctx.fillStyle = ink;
+    ctx.font = 'bold 13px "Pretendard", sans-serif';
+    ctx.fillText(title, x + 12, box.y + 22);
+    return { cx: x + panelWidth / 2, cy: box.y + box.height / 2 };
+  };
+  const force = (x: number, y: number, direction: 1 | -1, magnitude: number, color: string, label: string) => {
+    const length = lengthFor(magnitude);
+    const tipY = y + direction * length;
+    drawVector(ctx, x, y, x, tipY, {
+      color,
+      label,
+      labelPosition: { x: x + 10, y: (y + tipY) / 2 },
+      lineWidth: 3,
+    });
+    ctx.font = '600 11px "Pretendard", sans-serif';
+    ctx.fillText(`${Math.round(magnitude).toLocaleString('en-US')} N`, x + 10, (y + tipY) / 2 + 15);
+    return { x, y: (y + tipY) / 2 };
+  };
+
+  const hammer = panel(box.x, 'Hammer alone');
+  ctx.fillStyle = isDiagram ? '#e5e7eb' : 'rgba(71, 85, 105, 0.35)';
+  ctx.fillRect(hammer.cx - 28 * scale, hammer.cy - 14 * scale, 56 * scale, 28 * scale);
+  force(hammer.cx - 16 * scale, hammer.cy, 1, forces.hammerWeight, colors.weight, 'W_hammer');
+
+  const nail = panel(box.x + panelWidth + gap, 'Nail alone');
+  ctx.fillStyle = isDiagram ? '#e5e7eb' : 'rgba(100, 116, 139, 0.45)';
+  ctx.fillRect(nail.cx - 4 * scale, nail.cy - 28 * scale, 8 * scale, 56 * scale);
+  ctx.fillRect(nail.cx - 11 * scale, nail.cy - 28 * scale, 22 * scale, 5 * scale);
+  force(nail.cx + 16 * scale, nail.cy, 1, forces.nailWeight, colors.weight, 'W_nail');
+
+  if (forces.pair <= 0) {
+    ctx.fillStyle = 'rgba(51, 65, 85, 0.8)';
+    ctx.font = '600 12px "Pretendard", sans-serif';
+    ctx.fillText('No contact, so no F_H / F_N pair', box.x + 12, box.y + box.height - 14);
+    return;
+  }
+
+  const onHammer = force(hammer.cx, hammer.cy, -1, forces.pair, colors.nailOnHammer, 'F_N');
+  const onNail = force(nail.cx, nail.cy, 1, forces.pair, colors.hammerOnNail, 'F_H');
+  force(nail.cx - 16 * scale, nail.cy, -1, forces.resistance, colors.resistance, 'R_wood');
+  drawVector(ctx, onHammer.x + 4, onHammer.y, onNail.x - 4, onNail.y, {
+    color: colors.connector,
+    lineWidth: 2,
+    dashed: true,
+    doubleHeaded: true,
+  });
+  ctx.fillStyle = colors.connector;
+  ctx.font = 'bold 12px "Pretendard", sans-serif';
+  ctx.fillText('3rd-law pair', box.x + panelWidth - 30, box.y + box.height - 14);
+};
+
+export const ContactForceSimulation = ({ learningMode, onOpenTextbook }: SimulationProps) => {
   const [mass, setMass] = useState(5);
   const [velocity, setVelocity] = useState(5);
   const [isStriking, setIsStriking] = useState(false);
   const [isHoldingContact, setIsHoldingContact] = useState(false);
-  const [impact, setImpact] = useState({ force: 0, active: false });
+  const [woodResistance, setWoodResistance] = useState(2500);
+  const [impact, setImpact] = useState<Impact>(IDLE_IMPACT);
+  const [forceTrace, setForceTrace] = useState<ForceSample[]>([]);
   const [viewMode, setViewMode] = useState<'diagram' | 'explore'>('diagram');
+  const [showFreeBody, setShowFreeBody] = useState(false);
   const [showExplanation, setShowExplanation] = useState(false);
-  const [showTextbook, setShowTextbook] = useState(false);
 
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
   const size = useElementSize(containerRef);
-  const animationRef = useRef<number | null>(null);
+  const clock = useSimulationClock();
+  const recorder = useCanvasRecorder(canvasRef, {
+    fileName: 'hammer-nail-clip',
+    readouts: impact.active
+      ? [
+          `F_H (on nail): ${impact.force} N, peak ${impact.peakForce} N`,
+          `F_N (on hammer): ${impact.force} N, peak ${impact.peakForce} N`,
+          'Equal magnitude',
+        ]
+      : ['F_H (on nail): --', 'F_N (on hammer): --'],
+  });
+  const advanceClock = clock.advance;
+  const drawLayer = useCachedLayers();
+  const quiz = useQuiz('contact-force', QUESTIONS);
+  const prediction = usePrediction(learningMode && viewMode === 'explore');
+  const recordPrediction = prediction.record;
+  const guide = useGuidedActivity(GUIDED_STEPS);
+  const notifyGuide = guide.notify;
+  const guideStep = guide.current;
+
+  // The first step is a state, not an action, so it also completes when the activity (re)starts in Explore view.
+  useEffect(() => {
+    if (viewMode === 'explore') notifyGuide('view-explore');
+  }, [guideStep, notifyGuide, viewMode]);
+
+  const trialLog = useTrialLog('contact-force');
+  const addTrial = trialLog.add;
+  const arrowRegionsRef = useRef<ArrowRegion[]>([]);
   const stateRef = useRef({
     phase: 'idle' as 'idle' | 'down' | 'contact' | 'up',
     hammerY: 0,
     nailY: 0,
-    impactFrames: 0,
+    impactTicks: 0,
     targetNailY: 0,
+    pulsePeak: 0,
+    pulseMs: 0,
+    holdTime: 0,
     ready: false,
   });
 
   const reset = useCallback(() => {
+    const { scale, groundY, nailHeight } = getLayout(size.width, size.height);
     stateRef.current = {
       phase: 'idle',
-      hammerY: 0,
-      nailY: 0,
-      impactFrames: 0,
+      hammerY: groundY - 200 * scale,
+      nailY: groundY - nailHeight,
+      impactTicks: 0,
       targetNailY: 0,
-      ready: false,
+      pulsePeak: 0,
+      pulseMs: 0,
+      holdTime: 0,
+      ready: size.height > 0,
     };
-    setImpact({ force: 0, active: false });
+    setImpact(IDLE_IMPACT);
+    setForceTrace([]);
     setIsStriking(false);
     setIsHoldingContact(false);
-  }, []);
+  }, [size.width, size.height]);
 
+  // The diagram shows a fixed contact pose, so leaving or entering it starts the explore run from scratch.
   useEffect(() => {
     reset();
-  }, [size.width, size.height, reset]);
+  }, [reset, viewMode]);
 
-  useEffect(() => {
-    if (!isHoldingContact) return;
-    const timer = window.setTimeout(() => {
-      setIsHoldingContact(false);
-    }, 3000);
-    return () => window.clearTimeout(timer);
-  }, [isHoldingContact]);
-
-  const calculateForce = useCallback(() => Math.round(mass * velocity * 22), [mass, velocity]);
-
-  const drawArrow = (
-    ctx: CanvasRenderingContext2D,
-    fromX: number,
-    fromY: number,
-    toX: number,
-    toY: number,
-    color: string,
-    label: string,
-  ) => {
-    const headLength = 12;
-    const angle = Math.atan2(toY - fromY, toX - fromX);
-
-    ctx.strokeStyle = color;
-    ctx.fillStyle = color;
-    ctx.lineWidth = 4;
-    ctx.beginPath();
-    ctx.moveTo(fromX, fromY);
-    ctx.lineTo(toX, toY);
-    ctx.stroke();
-
-    ctx.beginPath();
-    ctx.moveTo(toX, toY);
-    ctx.lineTo(toX - headLength * Math.cos(angle - Math.PI / 6), toY - headLength * Math.sin(angle - Math.PI / 6));
-    ctx.lineTo(toX - headLength * Math.cos(angle + Math.PI / 6), toY - headLength * Math.sin(angle + Math.PI / 6));
-    ctx.closePath();
-    ctx.fill();
-
-    if (label) {
-      ctx.font = 'bold 14px "Pretendard", sans-serif';
-      ctx.fillText(label, toX + 10, (fromY + toY) / 2);
-    }
-  };
+  const contact = calculateContact(mass, velocity, woodResistance);
+  const calculateImpact = useCallback((): Impact => {
+    const { averageForce, peakForce, depthMm, contactTimeMs } = calculateContact(mass, velocity, woodResistance);
+    return { force: averageForce, peakForce, depthMm, contactMs: contactTimeMs, active: true };
+  }, [mass, velocity, woodResistance]);
+
+  const tick = useCallback(
+    (dt: number) => {
+      const state = stateRef.current;
+      if (viewMode === 'diagram' || !state.ready) return;
+      const { scale, groundY, nailHeight, hammerHeadHeight } = getLayout(size.width, size.height);
+      const targetHammerY = state.nailY - hammerHeadHeight * 0.6;
+      const step = velocity * 2.6 * scale;
+
+      if (state.phase === 'down') {
+        state.hammerY += step;
+        if (state.hammerY >= targetHammerY) {
+          state.hammerY = targetHammerY;
+          state.phase = 'contact';
+          state.impactTicks = 0;
+          const nextImpact = calculateImpact();
+          setImpact(nextImpact);
+          recordPrediction({
+            rows: [
+              { label: 'F_H (hammer on nail)', value: `${nextImpact.force} N` },
+              { label: 'F_N (nail on hammer)', value: `${nextImpact.force} N` },
+            ],
+            outcome: 'equal',
+          });
+          state.pulsePeak = nextImpact.peakForce;
+          state.pulseMs = nextImpact.contactMs;
+          setForceTrace([{ t: 0, force: 0 }]);
+          const depth = nextImpact.depthMm * (nailHeight / NAIL_LENGTH_MM);
+          state.targetNailY = Math.min(groundY - 10 * scale, state.nailY + depth);
+          state.holdTime = CONTACT_HOLD_S;
+          setIsHoldingContact(true);
+          notifyGuide('contact');
+          addTrial({
+            mass,
+            speed: velocity,
+            forceH: nextImpact.force,
+            forceN: nextImpact.force,
+            depth: nextImpact.depthMm,
+          });
+        }
+      } else if (state.phase === 'contact') {
+        if (state.holdTime > 0) {
+          state.holdTime -= dt;
+          if (state.holdTime <= 0) setIsHoldingContact(false);
+        } else {
+          state.impactTicks += 1;
+          if (state.nailY < state.targetNailY) {
+            const nailStep = Math.min(
+              state.targetNailY - state.nailY,
+              Math.max(1.5 * scale, (state.targetNailY - state.nailY) * 0.15),
+            );
+            state.nailY += nailStep;
+            state.hammerY += nailStep;
+          }
+          if (state.impactTicks <= CONTACT_TICKS) {
+            const progress = state.impactTicks / CONTACT_TICKS;
+            const sample = { t: progress * state.pulseMs, force: state.pulsePeak * Math.sin(Math.PI * progress) };
+            setForceTrace((prev) => [...prev, sample]);
+          }
+          if (state.impactTicks > CONTACT_TICKS) {
+            state.phase = 'up';
+            setImpact((prev) => ({ ...prev, active: false }));
+          }
+        }
+      } else if (state.phase === 'up') {
+        state.hammerY -= 4 * scale;
+        if (state.hammerY <= groundY - 200 * scale) {
+          state.hammerY = groundY - 200 * scale;
+          state.phase = 'idle';
+          setIsStriking(false);
+        }
+      }
+    },
+    [addTrial, calculateImpact, mass, notifyGuide, recordPrediction, size, velocity, viewMode],
+  );
 
   const draw = useCallback(
     (ctx: CanvasRenderingContext2D) => {
       const { width, height } = size;
-      const scale = height / 600;
-      const groundY = height * 0.72;
-      const nailHeight = 70 * scale;
-      const hammerHeadHeight = 40 * scale;
-      const hammerHeadWidth = 70 * scale;
-      const hammerHandleHeight = 110 * scale;
-      const nailX = width * 0.5;
+      const { scale, groundY, nailHeight, hammerHeadHeight, hammerHeadWidth, hammerHandleHeight, nailX } = getLayout(
+        width,
+        height,
+        showFreeBody,
+      );
       const isDiagram = viewMode === 'diagram';
 
-      if (!stateRef.current.ready) {
-        stateRef.current.hammerY = groundY - 200 * scale;
-        stateRef.current.nailY = groundY - nailHeight;
-        stateRef.current.ready = true;
-      }
-
       ctx.clearRect(0, 0, width, height);
-
-      if (isDiagram) {
-        ctx.fillStyle = '#ffffff';
-        ctx.fillRect(0, 0, width, height);
-        ctx.strokeStyle = 'rgba(15, 23, 42, 0.12)';
-        ctx.lineWidth = 2;
-        ctx.strokeRect(18, 18, width - 36, height - 36);
-      } else {
-        const bgGradient = ctx.createLinearGradient(0, 0, 0, height);
+      arrowRegionsRef.current = [];
+      drawLayer(ctx, `background-${viewMode}-${width}x${height}`, { x: 0, y: 0, width, height }, (layer) => {
+        if (isDiagram) {
+          layer.fillStyle = '#ffffff';
+          layer.fillRect(0, 0, width, height);
+          layer.strokeStyle = 'rgba(15, 23, 42, 0.12)';
+          layer.lineWidth = 2;
+          layer.strokeRect(18, 18, width - 36, height - 36);
+          return;
+        }
+        const bgGradient = layer.createLinearGradient(0, 0, 0, height);
         bgGradient.addColorStop(0, '#fef3c7');
         bgGradient.addColorStop(0.55, '#fef9c3');
         bgGradient.addColorStop(1, '#fde68a');
-        ctx.fillStyle = bgGradient;
-        ctx.fillRect(0, 0, width, height);
+        layer.fillStyle = bgGradient;
+        layer.fillRect(0, 0, width, height);
 
-        ctx.fillStyle = '#d97706';
-        ctx.fillRect(0, groundY, width, height - groundY);
-        ctx.fillStyle = 'rgba(120, 53, 15, 0.35)';
+        layer.fillStyle = '#d97706';
+        layer.fillRect(0, groundY, width, height - groundY);
+        layer.fillStyle = 'rgba(120, 53, 15, 0.35)';
         for (let i = 0; i < width; i += 45 * scale) {
-          ctx.fillRect(i, groundY + 8 * scale, 20 * scale, 8 * scale);
+          layer.fillRect(i, groundY + 8 * scale, 20 * scale, 8 * scale);
         }
-      }
+      });
 
       const state = stateRef.current;
-      const targetHammerY = state.nailY - hammerHeadHeight * 0.6;
-      const step = velocity * 2.6 * scale;
-
-      if (isDiagram) {
-        state.hammerY = groundY - 170 * scale;
-        state.nailY = groundY - nailHeight;
-        state.phase = 'contact';
-        if (!impact.active) {
-          const forceVal = calculateForce();
-          setImpact({ force: forceVal, active: true });
-        }
-      } else {
-        if (state.phase === 'down') {
-          state.hammerY += step;
-          if (state.hammerY >= targetHammerY) {
-            state.hammerY = targetHammerY;
-            state.phase = 'contact';
-            state.impactFrames = 0;
-            const forceVal = calculateForce();
-            setImpact({ force: forceVal, active: true });
-            const depth = Math.min(32 * scale, forceVal / 55);
-            state.targetNailY = Math.min(groundY - 10 * scale, state.nailY + depth);
-            setIsHoldingContact(true);
-          }
-        } else if (state.phase === 'contact') {
-          if (!isHoldingContact) {
-            state.impactFrames += 1;
-            if (state.nailY < state.targetNailY) {
-              state.nailY += 1.5 * scale;
-              state.hammerY += 1.5 * scale;
-            }
-            if (state.impactFrames > 32) {
-              state.phase = 'up';
-              setImpact((prev) => ({ ...prev, active: false }));
-            }
-          }
-        } else if (state.phase === 'up') {
-          state.hammerY -= 4 * scale;
-          if (state.hammerY <= groundY - 200 * scale) {
-            state.hammerY = groundY - 200 * scale;
-            state.phase = 'idle';
-            setIsStriking(false);
-          }
-        }
-      }
+      const phase = isDiagram ? 'contact' : state.phase;
+      const nailY = isDiagram ? groundY - nailHeight : state.nailY;
 
       if (isDiagram) {
         ctx.fillStyle = '#9ca3af';
-        ctx.fillRect(nailX - 5 * scale, state.nailY, 10 * scale, nailHeight);
+        ctx.fillRect(nailX - 5 * scale, nailY, 10 * scale, nailHeight);
         ctx.fillStyle = '#6b7280';
-        ctx.fillRect(nailX - 14 * scale, state.nailY, 28 * scale, 8 * scale);
+        ctx.fillRect(nailX - 14 * scale, nailY, 28 * scale, 8 * scale);
       } else {
-        const nailGradient = ctx.createLinearGradient(nailX, state.nailY, nailX + 10 * scale, state.nailY);
+        const nailGradient = ctx.createLinearGradient(nailX, nailY, nailX + 10 * scale, nailY);
         nailGradient.addColorStop(0, '#cbd5e1');
         nailGradient.addColorStop(0.5, '#94a3b8');
         nailGradient.addColorStop(1, '#64748b');
         ctx.fillStyle = nailGradient;
-        ctx.fillRect(nailX - 5 * scale, state.nailY, 10 * scale, nailHeight);
+        ctx.fillRect(nailX - 5 * scale, nailY, 10 * scale, nailHeight);
         ctx.fillStyle = '#64748b';
-        ctx.fillRect(nailX - 14 * scale, state.nailY, 28 * scale, 8 * scale);
+        ctx.fillRect(nailX - 14 * scale, nailY, 28 * scale, 8 * scale);
       }
 
       const hammerY = isDiagram ? groundY - 170 * scale : state.hammerY;
@@ -241,82 +589,101 @@ export const ContactForceSimulation = ({ learningMode }: { learningMode: boolean
         ctx.fillRect(nailX - 6 * scale, hammerY - hammerHandleHeight, 12 * scale, hammerHandleHeight);
       }
 
-      if (state.phase === 'contact' && !isDiagram) {
+      if (phase === 'contact' && !isDiagram) {
         ctx.beginPath();
         ctx.strokeStyle = 'rgba(239, 68, 68, 0.4)';
         ctx.lineWidth = 4;
-        ctx.arc(nailX, state.nailY + 5 * scale, 26 * scale, 0, Math.PI * 2);
+        ctx.arc(nailX, nailY + 5 * scale, 26 * scale, 0, Math.PI * 2);
         ctx.stroke();
       }
 
-      if (state.phase === 'contact') {
-        const forceMag = calculateForce();
-        const arrowLength = Math.min(140 * scale, forceMag / 9);
+      if (phase === 'contact') {
+        const forceMag = calculateImpact().force;
+        const arrowLength = Math.min(140, Math.max(12, forceMag / NEWTONS_PER_PX)) * scale;
         const arrowX = nailX - 45 * scale;
         const arrowColor = isDiagram ? 'rgba(15, 23, 42, 0.85)' : '#ef4444';
         const arrowColor2 = isDiagram ? 'rgba(15, 23, 42, 0.85)' : '#3b82f6';
-        drawArrow(
-          ctx,
-          arrowX,
-          state.nailY + 10 * scale,
-          arrowX,
-          state.nailY + arrowLength,
-          arrowColor,
-          isDiagram ? '' : 'F_H',
-        );
-        drawArrow(
-          ctx,
-          arrowX,
-          state.nailY + 10 * scale,
-          arrowX,
-          state.nailY - arrowLength + 10 * scale,
-          arrowColor2,
-          isDiagram ? '' : 'F_N',
+        const startY = nailY + 10 * scale;
+        const hammerTipY = nailY + arrowLength;
+        const nailTipY = nailY - arrowLength + 10 * scale;
+        drawVector(ctx, arrowX, startY, arrowX, hammerTipY, {
+          color: arrowColor,
+          label: isDiagram ? '' : 'F_H',
+          labelPosition: { x: arrowX + 10, y: (startY + hammerTipY) / 2 },
+          fontSize: 14,
+        });
+        drawVector(ctx, arrowX, startY, arrowX, nailTipY, {
+          color: arrowColor2,
+          label: isDiagram ? '' : 'F_N',
+          labelPosition: { x: arrowX + 10, y: (startY + nailTipY) / 2 },
+          fontSize: 14,
+        });
+        arrowRegionsRef.current.push(
+          { id: 'F_H', x1: arrowX, y1: startY, x2: arrowX, y2: hammerTipY },
+          { id: 'F_N', x1: arrowX, y1: startY, x2: arrowX, y2: nailTipY },
         );
         if (isDiagram) {
-          ctx.font = 'bold 14px "Pretendard", sans-serif';
-          ctx.fillStyle = 'rgba(15, 23, 42, 0.85)';
-          ctx.fillText('F_N', arrowX - 28 * scale, state.nailY - arrowLength + 4 * scale);
-          ctx.fillText('F_H', arrowX - 28 * scale, state.nailY + arrowLength + 14 * scale);
+          const labelColor = 'rgba(15, 23, 42, 0.85)';
+          drawVectorLabel(ctx, 'F_N', arrowX - 28 * scale, nailY - arrowLength + 4 * scale, labelColor, 14);
+          drawVectorLabel(ctx, 'F_H', arrowX - 28 * scale, nailY + arrowLength + 14 * scale, labelColor, 14);
         }
       }
+
+      if (showFreeBody) {
+        const isContact = phase === 'contact';
+        drawFreeBodyPanels(
+          ctx,
+          { x: width * 0.56, y: 96, width: width * 0.44 - 24, height: height - 96 - 72 },
+          {
+            pair: isContact ? calculateImpact().force : 0,
+            hammerWeight: mass * GRAVITY_ACCEL,
+            nailWeight: NAIL_MASS_KG * GRAVITY_ACCEL,
+            resistance: isContact ? woodResistance : 0,
+          },
+          scale,
+          isDiagram,
+        );
+      }
+
+      if (!isDiagram) {
+        drawScaleLegend(ctx, 24, size.height - 28, {
+          unitsPerPx: NEWTONS_PER_PX / scale,
+          unit: 'N',
+          color: 'rgba(51, 65, 85, 0.85)',
+        });
+      }
     },
-    [calculateForce, size, velocity, viewMode, impact.active, isHoldingContact],
+    [calculateImpact, drawLayer, mass, showFreeBody, size, viewMode, woodResistance],
   );
 
+  // Runs after the resize reset above so the diagram keeps its static impact readout.
   useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const dpr = window.devicePixelRatio || 1;
-    canvas.width = size.width * dpr;
-    canvas.height = size.height * dpr;
-    canvas.style.width = `${size.width}px`;
-    canvas.style.height = `${size.height}px`;
-    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
-
-    const render = () => {
-      draw(ctx);
-      animationRef.current = requestAnimationFrame(render);
-    };
-    render();
-    return () => {
-      if (animationRef.current) cancelAnimationFrame(animationRef.current);
-    };
-  }, [draw, size.height, size.width]);
+    if (viewMode === 'diagram') setImpact(calculateImpact());
+  }, [calculateImpact, viewMode, size.width, size.height]);
+
+  useRenderLoop(canvasRef, size, (ctx, now) => {
+    advanceClock(now, tick);
+    draw(ctx);
+  });
 
   const handleStrike = () => {
     if (isStriking) return;
     setIsStriking(true);
     setIsHoldingContact(false);
-    setImpact({ force: 0, active: false });
+    setImpact(IDLE_IMPACT);
+    setForceTrace([]);
     stateRef.current.phase = 'down';
+    guide.notify('strike');
   };
   const continueAfterContact = () => {
+    stateRef.current.holdTime = 0;
     setIsHoldingContact(false);
   };
+  const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const hit = hitTestArrows(arrowRegionsRef.current, event.clientX - rect.left, event.clientY - rect.top);
+    if (hit) quiz.pickArrow(hit);
+  };
 
   return (
     <Box sx={{ display: 'flex', height: '100%', minHeight: 0, overflow: 'hidden' }}>
@@ -361,11 +728,7 @@ export const ContactForceSimulation = ({ learningMode }: { learningMode: boolean
                 <Typography variant="overline" sx={{ color: 'rgba(30, 64, 175, 0.9)' }}>
                   Guided mode
                 </Typography>
-                <Stack spacing={0.6} sx={{ mt: 1 }}>
-                  <Typography variant="body2">1) Set mass and speed.</Typography>
-                  <Typography variant="body2">2) Press Strike to reach contact.</Typography>
-                  <Typography variant="body2">3) Compare F_H and F_N arrows.</Typography>
-                </Stack>
+                <GuidedSteps guide={guide} />
                 <Button
                   variant="outlined"
                   size="small"
@@ -374,14 +737,11 @@ export const ContactForceSimulation = ({ learningMode }: { learningMode: boolean
                 >
                   {showExplanation ? 'Hide explanation' : 'Show explanation'}
                 </Button>
-                <Button
-                  variant="contained"
-                  size="small"
-                  sx={{ mt: 1, fontWeight: 700 }}
-                  onClick={() => setShowTextbook(true)}
-                >
-                  Open textbook explanation
-                </Button>
+                {onOpenTextbook && (
+                  <Button variant="contained" size="small" sx={{ mt: 1, fontWeight: 700 }} onClick={onOpenTextbook}>
+                    Open textbook explanation
+                  </Button>
+                )}
               </CardContent>
             </Card>
           </Box>
@@ -418,14 +778,37 @@ export const ContactForceSimulation = ({ learningMode }: { learningMode: boolean
             />
             <Typography variant="caption">Explore</Typography>
           </Stack>
+          <Stack direction="row" alignItems="center" spacing={1} sx={{ mt: 1 }}>
+            <Typography variant="caption">Free-body split view</Typography>
+            <Switch checked={showFreeBody} onChange={(_, checked) => setShowFreeBody(checked)} color="secondary" />
+          </Stack>
         </Box>
+        {viewMode === 'diagram' && (
+          <SceneExportControls
+            size={size}
+            onExport={(format, scale) => exportScene(draw, size, format, scale, 'hammer-nail-diagram')}
+          />
+        )}
         {viewMode === 'explore' && (
           <>
-            <ControlSlider label="Hammer Mass" value={mass} onChange={setMass} min={1} max={10} unit="kg" />
+            <ControlSlider
+              label="Hammer Mass"
+              value={mass}
+              onChange={(value) => {
+                setMass(value);
+                guide.notify('mass-changed');
+              }}
+              min={1}
+              max={10}
+              unit="kg"
+            />
             <ControlSlider
               label="Swing Speed"
               value={velocity}
-              onChange={setVelocity}
+              onChange={(value) => {
+                setVelocity(value);
+                guide.notify('speed-changed');
+              }}
               min={1}
               max={10}
               unit="m/s"
@@ -435,8 +818,8 @@ export const ContactForceSimulation = ({ learningMode }: { learningMode: boolean
               <Button
                 variant="contained"
                 fullWidth
-                onClick={handleStrike}
-                disabled={isStriking}
+                onClick={() => prediction.request(handleStrike, `Hammer: ${mass} kg at ${velocity} m/s.`)}
+                disabled={isStriking || prediction.phase === 'predict'}
                 startIcon={<PlayArrowRounded />}
                 sx={{ py: 1.2, fontWeight: 700 }}
               >
@@ -453,11 +836,53 @@ export const ContactForceSimulation = ({ learningMode }: { learningMode: boolean
                 <AutorenewRounded />
               </IconButton>
             </Stack>
+            <PredictionCard prediction={prediction} prompts={PREDICTION} />
+            <ControlSlider
+              label="Wood Resistance"
+              value={woodResistance}
+              onChange={setWoodResistance}
+              min={500}
+              max={5000}
+              step={100}
+              unit="N"
+            />
+            <TrialTable log={trialLog} columns={TRIAL_COLUMNS} title="Hammer trials" fileName="hammer-trials" />
+            <Box
+              sx={{
+                borderRadius: 3,
+                bgcolor: 'rgba(255, 255, 255, 0.7)',
+                border: '1px solid rgba(15, 23, 42, 0.1)',
+                px: 2,
+                py: 1.5,
+              }}
+            >
+              <Typography variant="overline" sx={{ color: 'rgba(100, 116, 139, 0.8)' }}>
+                Contact model
+              </Typography>
+              <Typography variant="caption" sx={{ display: 'block' }}>
+                Momentum p = m·v = {contact.momentum.toFixed(1)} kg·m/s
+              </Typography>
+              <Typography variant="caption" sx={{ display: 'block' }}>
+                Nail depth d = ½mv² / R = {contact.depthMm.toFixed(1)} mm
+                {contact.fullyDriven ? ' (nail fully driven)' : ''}
+              </Typography>
+              <Typography variant="caption" sx={{ display: 'block' }}>
+                Contact time Δt = 2d / v = {contact.contactTimeMs.toFixed(1)} ms
+              </Typography>
+              <Typography variant="caption" sx={{ display: 'block' }}>
+                Average force F = Δp / Δt = {contact.averageForce} N
+              </Typography>
+              <Typography variant="caption" sx={{ display: 'block' }}>
+                Peak force ≈ (π / 2)·F = {contact.peakForce} N
+              </Typography>
+            </Box>
             {isHoldingContact && (
               <Button variant="outlined" onClick={continueAfterContact} sx={{ mt: 1, fontWeight: 700 }}>
                 Continue
               </Button>
             )}
+            <SimClockControls clock={clock} />
+            <RecordControls recorder={recorder} />
           </>
         )}
         <Box
@@ -495,7 +920,7 @@ export const ContactForceSimulation = ({ learningMode }: { learningMode: boolean
                 During contact, the two force arrows always match in length. That is the action–reaction pair.
               </Typography>
               <Typography variant="caption" sx={{ mt: 1, display: 'block', opacity: 0.75 }}>
-                Scale note: forces are shown in relative units (not real‑world Newtons).
+                Forces come from F = Δp / Δt, assuming the hammer stops on impact.
               </Typography>
             </CardContent>
           </Card>
@@ -519,173 +944,158 @@ export const ContactForceSimulation = ({ learningMode }: { learningMode: boolean
             </CardContent>
           </Card>
         )}
-        {viewMode === 'explore' && (
-          <Card
-            elevation={0}
-            sx={{
-              borderRadius: 3,
-              bgcolor: 'rgba(15, 23, 42, 0.04)',
-              border: '1px solid rgba(15, 23, 42, 0.08)',
-            }}
-          >
-            <CardContent>
-              <Typography variant="overline" sx={{ color: 'rgba(100, 116, 139, 0.8)' }}>
-                Check question
-              </Typography>
-              <Typography variant="body2" sx={{ mt: 1, color: 'rgba(51, 65, 85, 0.85)' }}>
-                If the hammer is heavier, does it exert a larger force on the nail during contact?
-              </Typography>
-              <Typography variant="caption" sx={{ mt: 1, display: 'block', opacity: 0.75 }}>
-                Answer: No. The forces on each object are equal in magnitude; only the motion changes.
-              </Typography>
-            </CardContent>
-          </Card>
-        )}
+        <QuizCard quiz={quiz} />
         <Box sx={{ mt: 'auto', pt: 2 }}>
           <Chip label="Newton's 3rd Law: F_action = F_reaction" color="primary" sx={{ fontWeight: 700 }} />
         </Box>
       </Paper>
 
-      <Box
-        ref={containerRef}
-        sx={{
-          flex: 1,
-          height: '100%',
-          minHeight: 0,
-          position: 'relative',
-          overflow: 'hidden',
-          background:
-            'radial-gradient(circle at top, rgba(255, 255, 255, 0.8), rgba(254, 243, 199, 0.4))',
-        }}
-      >
-        {viewMode === 'explore' && isHoldingContact && (
-          <Paper
-            elevation={0}
-            sx={{
-              position: 'absolute',
-              top: 120,
-              left: 24,
-              px: 2.5,
-              py: 2,
-              borderRadius: 2,
-              bgcolor: 'rgba(255, 255, 255, 0.92)',
-              border: '1px solid rgba(15, 23, 42, 0.12)',
-              boxShadow: '0 12px 26px rgba(15, 23, 42, 0.12)',
-              maxWidth: 260,
-            }}
-          >
-            <Typography variant="subtitle2" sx={{ fontWeight: 800, mb: 1 }}>
-              Contact moment
-            </Typography>
-            <Typography variant="body2" sx={{ color: 'rgba(51, 65, 85, 0.9)' }}>
-              This is the instant of interaction. The forces on the hammer and nail are equal in size and opposite in
-              direction.
-            </Typography>
-          </Paper>
-        )}
-        {viewMode === 'explore' && (
-          <Stack direction="row" spacing={2} sx={{ position: 'absolute', top: 24, left: 24, zIndex: 2 }}>
-            <ForceCard
-              title="Force on nail"
-              value={impact.active ? `${impact.force} N` : '--'}
-              color="#ef4444"
-              sub="F_H"
-            />
-            <Typography variant="h4" sx={{ fontWeight: 800, color: 'rgba(51, 65, 85, 0.6)' }}>
-              =
-            </Typography>
-            <ForceCard
-              title="Force on hammer"
-              value={impact.active ? `${impact.force} N` : '--'}
-              color="#3b82f6"
-              sub="F_N"
-            />
-          </Stack>
-        )}
+      <Box sx={{ flex: 1, minWidth: 0, height: '100%', display: 'flex', flexDirection: 'column' }}>
+        <Box
+          ref={containerRef}
+          sx={{
+            flex: 1,
+            minHeight: 0,
+            position: 'relative',
+            overflow: 'hidden',
+            background:
+              'radial-gradient(circle at top, rgba(255, 255, 255, 0.8), rgba(254, 243, 199, 0.4))',
+          }}
+        >
+          {viewMode === 'explore' && isHoldingContact && (
+            <Paper
+              elevation={0}
+              sx={{
+                position: 'absolute',
+                top: 120,
+                left: 24,
+                px: 2.5,
+                py: 2,
+                borderRadius: 2,
+                bgcolor: 'rgba(255, 255, 255, 0.92)',
+                border: '1px solid rgba(15, 23, 42, 0.12)',
+                boxShadow: '0 12px 26px rgba(15, 23, 42, 0.12)',
+                maxWidth: 260,
+              }}
+            >
+              <Typography variant="subtitle2" sx={{ fontWeight: 800, mb: 1 }}>
+                Contact moment
+              </Typography>
+              <Typography variant="body2" sx={{ color: 'rgba(51, 65, 85, 0.9)' }}>
+                This is the instant of interaction. The forces on the hammer and nail are equal in size and opposite in
+                direction.
+              </Typography>
+            </Paper>
+          )}
+          {viewMode === 'explore' && (
+            <Stack direction="row" spacing={2} sx={{ position: 'absolute', top: 24, left: 24, zIndex: 2 }}>
+              <ForceCard
+                title="Force on nail"
+                value={impact.active ? `${impact.force} N` : '--'}
+                color="#ef4444"
+                sub={impact.active ? `F_H (peak ${impact.peakForce} N)` : 'F_H'}
+              />
+              <Typography variant="h4" sx={{ fontWeight: 800, color: 'rgba(51, 65, 85, 0.6)' }}>
+                =
+              </Typography>
+              <ForceCard
+                title="Force on hammer"
+                value={impact.active ? `${impact.force} N` : '--'}
+                color="#3b82f6"
+                sub={impact.active ? `F_N (peak ${impact.peakForce} N)` : 'F_N'}
+              />
+            </Stack>
+          )}
 
-        {viewMode === 'explore' && impact.active && (
-          <Paper
-            elevation={0}
-            sx={{
-              position: 'absolute',
-              top: 24,
-              right: 24,
-              px: 2,
-              py: 1,
-              borderRadius: 2,
-              bgcolor: 'rgba(15, 23, 42, 0.75)',
-              color: '#f8fafc',
-              border: '1px solid rgba(148, 163, 184, 0.35)',
-            }}
-          >
-            <Typography variant="caption" sx={{ fontWeight: 700 }}>
-              Equal magnitude
-            </Typography>
-          </Paper>
-        )}
+          {viewMode === 'explore' && impact.active && (
+            <Paper
+              elevation={0}
+              sx={{
+                position: 'absolute',
+                top: 24,
+                right: 24,
+                px: 2,
+                py: 1,
+                borderRadius: 2,
+                bgcolor: 'rgba(15, 23, 42, 0.75)',
+                color: '#f8fafc',
+                border: '1px solid rgba(148, 163, 184, 0.35)',
+              }}
+            >
+              <Typography variant="caption" sx={{ fontWeight: 700 }}>
+                Equal magnitude
+              </Typography>
+            </Paper>
+          )}
 
-        <canvas ref={canvasRef} />
+          <canvas
+            ref={canvasRef}
+            onClick={handleCanvasClick}
+            style={{ cursor: quiz.awaitingArrow ? 'crosshair' : undefined }}
+          />
 
-        {viewMode === 'explore' && !isStriking && impact.force === 0 && (
-          <Paper
-            elevation={0}
-            sx={{
-              position: 'absolute',
-              bottom: 28,
-              left: '50%',
-              transform: 'translateX(-50%)',
-              px: 3,
-              py: 1.2,
-              borderRadius: 999,
-              bgcolor: 'rgba(255,255,255,0.85)',
-              border: '1px solid rgba(15, 23, 42, 0.08)',
-              boxShadow: '0 12px 24px rgba(15, 23, 42, 0.08)',
-            }}
-          >
-            <Typography variant="caption" sx={{ fontWeight: 700, color: 'rgba(51, 65, 85, 0.85)' }}>
-              Press STRIKE to trigger the interaction
-            </Typography>
-          </Paper>
-        )}
+          {viewMode === 'explore' && !isStriking && impact.force === 0 && (
+            <Paper
+              elevation={0}
+              sx={{
+                position: 'absolute',
+                bottom: 28,
+                left: '50%',
+                transform: 'translateX(-50%)',
+                px: 3,
+                py: 1.2,
+                borderRadius: 999,
+                bgcolor: 'rgba(255,255,255,0.85)',
+                border: '1px solid rgba(15, 23, 42, 0.08)',
+                boxShadow: '0 12px 24px rgba(15, 23, 42, 0.08)',
+              }}
+            >
+              <Typography variant="caption" sx={{ fontWeight: 700, color: 'rgba(51, 65, 85, 0.85)' }}>
+                Press STRIKE to trigger the interaction
+              </Typography>
+            </Paper>
+          )}
 
-        {viewMode === 'explore' && (
-          <Paper
-            elevation={0}
-            sx={{
-              position: 'absolute',
-              right: 24,
-              bottom: 24,
-              px: 2.5,
-              py: 2,
-              borderRadius: 2,
-              bgcolor: 'rgba(255,255,255,0.92)',
-              border: '1px solid rgba(15, 23, 42, 0.1)',
-              boxShadow: '0 16px 30px rgba(15, 23, 42, 0.12)',
-              maxWidth: 260,
-            }}
-          >
-            <Typography variant="subtitle2" sx={{ fontWeight: 800, mb: 1 }}>
-              Force pair checklist
-            </Typography>
-            <Stack spacing={0.5}>
-              <Typography variant="caption">• Equal in magnitude</Typography>
-              <Typography variant="caption">• Opposite in direction</Typography>
-              <Typography variant="caption">• Not acting on the same object</Typography>
-            </Stack>
-          </Paper>
-        )}
+          {viewMode === 'explore' && !showFreeBody && (
+            <Paper
+              elevation={0}
+              sx={{
+                position: 'absolute',
+                right: 24,
+                bottom: 24,
+                px: 2.5,
+                py: 2,
+                borderRadius: 2,
+                bgcolor: 'rgba(255,255,255,0.92)',
+                border: '1px solid rgba(15, 23, 42, 0.1)',
+                boxShadow: '0 16px 30px rgba(15, 23, 42, 0.12)',
+                maxWidth: 260,
+              }}
+            >
+              <Typography variant="subtitle2" sx={{ fontWeight: 800, mb: 1 }}>
+                Force pair checklist
+              </Typography>
+              <Stack spacing={0.5}>
+                <Typography variant="caption">• Equal in magnitude</Typography>
+                <Typography variant="caption">• Opposite in direction</Typography>
+                <Typography variant="caption">• Not acting on the same object</Typography>
+              </Stack>
+            </Paper>
+          )}
+        </Box>
+        {viewMode === 'explore' && <ForceTimeChart samples={forceTrace} />}
       </Box>
-      <Dialog open={showTextbook} onClose={() => setShowTextbook(false)} maxWidth="sm" fullWidth>
-        <DialogTitle>Textbook explanation — Example 1</DialogTitle>
-        <DialogContent>
-          <Box
-            component="img"
-            src="/textbook_example1.png"
-            alt="Textbook Example 1: Contact force between a hammer and a nail"
-            sx={{ width: '100%', borderRadius: 2, border: '1px solid rgba(15, 23, 42, 0.12)' }}
-          />
-        </DialogContent>
-      </Dialog>
     </Box>
   );
 };
+
+export const contactForceDefinition: SimulationDefinition = {
+  path: '/example1',
+  label: 'Example 1: Contact Force',
+  icon: <GavelRounded />,
+  Component: ContactForceSimulation,
+  keyConcept:
+    'Whenever two objects interact, they exert forces on each other that are equal in magnitude and opposite in direction. Look for matching values in the force cards.',
+  chips: ['Always paired', 'Equal magnitude', 'Opposite direction'],
+  textbook: TEXTBOOK,
+};
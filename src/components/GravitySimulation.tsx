@@ -1,12 +1,10 @@
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   Box,
   Button,
   Card,
   CardContent,
-  Dialog,
-  DialogContent,
-  DialogTitle,
+  Chip,
   Divider,
   IconButton,
   Paper,
@@ -14,81 +12,970 @@ import {
   Switch,
   Typography,
 } from '@mui/material';
-import { AutorenewRounded, PauseRounded, PlayArrowRounded } from '@mui/icons-material';
-import { ControlSlider, useElementSize } from './simShared';
+import { AutorenewRounded, PublicRounded } from '@mui/icons-material';
+import { LineChart } from '@mui/x-charts/LineChart';
+import { GuidedStep, GuidedSteps, useGuidedActivity } from './GuidedSteps';
+import { PredictionCard, PredictionPrompts, usePrediction } from './PredictionCard';
+import { QuizCard, QuizQuestion, useQuiz } from './QuizCard';
+import { TrialColumn, TrialTable, useTrialLog } from './TrialTable';
+import {
+  ArrowRegion,
+  ControlSlider,
+  drawScaleLegend,
+  drawVector,
+  drawVectorLabel,
+  exportScene,
+  formatScientific,
+  hitTestArrows,
+  SIM_TIMESTEP,
+  SceneExportControls,
+  RecordControls,
+  SimClockControls,
+  SimulationDefinition,
+  SimulationProps,
+  TextbookPage,
+  useCachedLayers,
+  useCanvasRecorder,
+  useElementSize,
+  useRenderLoop,
+  useSimulationClock,
+  VectorOptions,
+} from './simShared';
+
+type Body = { x: number; y: number; vx: number; vy: number };
+type BodyKey = 'earth' | 'moon' | 'third';
+type SystemBodies = { earth: Body; moon: Body; third: Body | null };
+type Masses = Record<BodyKey, number>;
+type Trail = Record<BodyKey, { x: number; y: number }[]>;
+type ThirdBodyKind = 'sun' | 'satellite';
+type UnitSystem = 'relative' | 'si';
+type Trajectory = 'circular' | 'elliptical' | 'escape' | 'crash';
+type CollisionMode = 'merge' | 'bounce';
+type CollisionEvent = { kind: 'bounce' | 'merge'; impulse: number };
+type EnergySample = { t: number; kinetic: number; potential: number; total: number; px: number; py: number };
+type FieldOverlay = 'none' | 'vectors' | 'contours' | 'heatmap';
+type FieldView = { width: number; height: number; centerX: number; centerY: number; pxPerLength: number };
+type UnitConfig = {
+  G: number;
+  pxPerLength: number;
+  timePerSecond: number;
+  arrowPerForce: number;
+  arrowPerAccel: number;
+};
+
+const KM_PER_PX = 1750;
+const EARTH_MOON_FORCE_N = 1.98e20;
+const ORBIT_SUBSTEPS = 4;
+const TRAIL_LENGTH = 360;
+const ENERGY_HISTORY_LENGTH = 120;
+const TEXTBOOK: TextbookPage = {
+  title: 'Textbook explanation — Example 2',
+  src: '/textbook_example2.png',
+  alt: 'Textbook Example 2: Non-contact force between the Earth and the Moon',
+};
+
+const QUESTIONS: QuizQuestion[] = [
+  {
+    id: 'larger-earth',
+    kind: 'choice',
+    prompt: 'The Earth is much more massive than the Moon. Does it pull harder on the Moon than the Moon pulls on it?',
+    choices: [
+      {
+        id: 'yes',
+        label: 'Yes, more mass means a stronger pull',
+        feedback: 'More mass does strengthen the pull, but it strengthens F_E and F_M equally.',
+      },
+      { id: 'equal', label: 'No, F_E and F_M are equal in size' },
+      {
+        id: 'orbit',
+        label: 'Yes, that is why the Moon orbits the Earth',
+        feedback: 'The Moon moves more because its smaller mass gives it a larger acceleration, not a larger force.',
+      },
+    ],
+    answer: 'equal',
+    explanation: 'The forces are equal; the Earth’s larger mass means a smaller acceleration.',
+  },
+  {
+    id: 'force-on-earth',
+    kind: 'arrow',
+    prompt: 'Click the arrow for the force that acts on the Earth.',
+    hint: 'Click an arrow on the canvas (two-body mode).',
+    answer: 'F_M',
+    feedback: { F_E: 'F_E is the Earth’s pull and it acts on the Moon. Find the Moon’s pull on the Earth.' },
+    explanation: 'F_M is the Moon’s pull on the Earth. It starts at the Earth and points toward the Moon.',
+  },
+  {
+    id: 'acceleration-ratio',
+    kind: 'numeric',
+    prompt:
+      'The Earth is about 81 times as massive as the Moon. How many times smaller is the Earth’s acceleration toward the Moon than the Moon’s toward the Earth?',
+    answer: 81,
+    tolerance: 1,
+    unit: '×',
+    mistakes: [{ value: 1, feedback: 'Equal forces do not mean equal accelerations. Use a = F / m for each body.' }],
+    explanation: 'With the same F, a = F / m is 81 times smaller for the 81 times heavier Earth.',
+  },
+  {
+    id: 'double-distance',
+    kind: 'choice',
+    prompt: 'If the Earth–Moon distance doubles, what happens to F_E and F_M?',
+    choices: [
+      { id: 'quarter', label: 'Both become a quarter as large' },
+      {
+        id: 'half',
+        label: 'Both become half as large',
+        feedback: 'Gravity follows an inverse-square law, so doubling r divides F by 2².',
+      },
+      {
+        id: 'one',
+        label: 'Only F_E gets smaller, because the Earth is bigger',
+        feedback: 'Whatever happens to one force of the pair happens to the other.',
+      },
+    ],
+    answer: 'quarter',
+    explanation: 'F = G·M·m / r², so doubling r makes both forces four times smaller, and they stay equal.',
+  },
+];
+
+const GUIDED_STEPS: GuidedStep[] = [
+  { label: 'Switch to Explore view.', hint: 'Flip the View mode switch to Explore.', events: ['view-explore'] },
+  {
+    label: 'Change mass or distance.',
+    hint: 'Drag a mass slider or the Distance slider.',
+    events: ['mass-changed', 'distance-changed'],
+  },
+  {
+    label: 'Compare F_E and F_M arrows.',
+    hint: 'Turn on Highlight force pair under Explore tools.',
+    events: ['pair-highlighted'],
+  },
+  {
+    label: 'Check acceleration values.',
+    hint: 'Turn on Show acceleration and compare a_E with a_M.',
+    events: ['acceleration-shown'],
+  },
+];
+
+// Headers list the SI unit first and the relative unit second; the Units column says which applies to a row.
+const TRIAL_COLUMNS: TrialColumn[] = [
+  { field: 'units', headerName: 'Units', type: 'string' },
+  { field: 'earthMass', headerName: 'Earth mass (kg | Mₑ)' },
+  { field: 'moonMass', headerName: 'Moon mass (kg | Mₘ)' },
+  { field: 'distance', headerName: 'Distance (m | px)' },
+  { field: 'force', headerName: 'F_E = F_M (N | rel)' },
+  { field: 'earthAccel', headerName: 'a_E (m/s² | rel)' },
+  { field: 'moonAccel', headerName: 'a_M (m/s² | rel)' },
+];
+
+const PREDICTION: PredictionPrompts = {
+  question: 'After this mass change, which body will accelerate more?',
+  options: [
+    { id: 'earth', label: 'The Earth' },
+    { id: 'moon', label: 'The Moon' },
+    { id: 'same', label: 'Both the same' },
+  ],
+  explainPrompt: 'The pull on each body is the same. Why do their accelerations differ?',
+  explanation:
+    'F_E and F_M are always equal, but a = F / m: the same force gives the lighter body the larger acceleration.',
+};
+
+// Relative mode keeps the classroom-friendly numbers; SI mode integrates in metres and seconds, compressed in time.
+const UNIT_CONFIGS: Record<UnitSystem, UnitConfig> = {
+  relative: { G: 24000, pxPerLength: 1, timePerSecond: 2.4, arrowPerForce: 6, arrowPerAccel: 10 },
+  si: {
+    G: 6.674e-11,
+    pxPerLength: 1 / (KM_PER_PX * 1000),
+    timePerSecond: 1.2e5,
+    arrowPerForce: 60 / EARTH_MOON_FORCE_N,
+    arrowPerAccel: 1e4,
+  },
+};
+
+const EARTH_MASS_PRESETS = [
+  { label: 'Earth', kg: 5.97e24 },
+  { label: 'Venus', kg: 4.87e24 },
+  { label: 'Mars', kg: 6.42e23 },
+  { label: 'Mercury', kg: 3.3e23 },
+];
+const MOON_MASS_PRESETS = [
+  { label: 'Moon', kg: 7.35e22 },
+  { label: 'Europa', kg: 4.8e22 },
+  { label: 'Titan', kg: 1.35e23 },
+  { label: 'Ganymede', kg: 1.48e23 },
+];
+
+const presetChipSx = (selected: boolean) => ({
+  fontWeight: 700,
+  color: '#e2e8f0',
+  bgcolor: selected ? 'rgba(249, 115, 22, 0.45)' : 'rgba(148, 163, 184, 0.2)',
+});
+
+const gravityForce = (G: number, earthMass: number, moonMass: number, separation: number) =>
+  (G * earthMass * moonMass) / (separation * separation);
+
+// Places both bodies about their common barycenter (the origin) with the Moon at `angle`. The Moon's launch velocity
+// relative to the Earth is `speedFactor` times the circular-orbit speed, tilted `launchAngle` degrees outward.
+const createOrbit = (
+  G: number,
+  earthMass: number,
+  moonMass: number,
+  distance: number,
+  angle: number,
+  speedFactor = 1,
+  launchAngle = 0,
+): SystemBodies => {
+  const totalMass = earthMass + moonMass;
+  const relativeSpeed = speedFactor * Math.sqrt((G * totalMass) / distance);
+  const earthShare = moonMass / totalMass;
+  const moonShare = earthMass / totalMass;
+  const ux = Math.cos(angle);
+  const uy = Math.sin(angle);
+  const tilt = (launchAngle * Math.PI) / 180;
+  const dirX = -uy * Math.cos(tilt) + ux * Math.sin(tilt);
+  const dirY = ux * Math.cos(tilt) + uy * Math.sin(tilt);
+  return {
+    earth: {
+      x: -ux * distance * earthShare,
+      y: -uy * distance * earthShare,
+      vx: -dirX * relativeSpeed * earthShare,
+      vy: -dirY * relativeSpeed * earthShare,
+    },
+    moon: {
+      x: ux * distance * moonShare,
+      y: uy * distance * moonShare,
+      vx: dirX * relativeSpeed * moonShare,
+      vy: dirY * relativeSpeed * moonShare,
+    },
+    third: null,
+  };
+};
+
+// Puts a third body on a circular orbit around the Earth–Moon pair, shifting the pair so the total momentum stays zero
+// and the overall barycenter stays at the origin.
+const addThirdBody = (G: number, bodies: SystemBodies, masses: Masses, distance: number, angle: number) => {
+  const pairMass = masses.earth + masses.moon;
+  const totalMass = pairMass + masses.third;
+  const speed = Math.sqrt((G * totalMass) / distance);
+  const ux = Math.cos(angle);
+  const uy = Math.sin(angle);
+  const pairShare = masses.third / totalMass;
+  const thirdShare = pairMass / totalMass;
+  [bodies.earth, bodies.moon].forEach((body) => {
+    body.x -= ux * distance * pairShare;
+    body.y -= uy * distance * pairShare;
+    body.vx += uy * speed * pairShare;
+    body.vy -= ux * speed * pairShare;
+  });
+  bodies.third = {
+    x: ux * distance * thirdShare,
+    y: uy * distance * thirdShare,
+    vx: -uy * speed * thirdShare,
+    vy: ux * speed * thirdShare,
+  };
+};
+
+// Classifies the launch from the conic it starts on: ε = v²/2 − μ/r decides bound or not, and the periapsis
+// r_p = h² / (μ(1 + e)) decides whether the Moon reaches the Earth's surface first.
+const classifyTrajectory = (speedFactor: number, launchAngle: number, distance: number, contactDistance: number) => {
+  const tilt = (launchAngle * Math.PI) / 180;
+  const v2 = speedFactor * speedFactor;
+  const energy = v2 / 2 - 1;
+  const angularMomentum = Math.sqrt(v2) * Math.cos(tilt);
+  const eccentricity = Math.sqrt(Math.max(0, 1 + 2 * energy * angularMomentum * angularMomentum));
+  const periapsis = (angularMomentum * angularMomentum * distance) / (1 + eccentricity);
+  const movingOutward = tilt > 0;
+  const reachesPeriapsis = energy < 0 || !movingOutward;
+  if (reachesPeriapsis && periapsis <= contactDistance) return 'crash';
+  if (energy >= 0) return 'escape';
+  return eccentricity < 0.01 ? 'circular' : 'elliptical';
+};
+
+const CONTACT_FLASH_TICKS = 45;
+const RESTING_SPEED_FRACTION = 0.02;
+
+// Pushes overlapping bodies apart about the barycenter, then exchanges one normal impulse J: the Earth receives −J
+// and the Moon +J, so the contact forces form their own action–reaction pair. Returns J (0 when already separating).
+const resolveCollision = (
+  bodies: SystemBodies,
+  earthMass: number,
+  moonMass: number,
+  contactDistance: number,
+  restitution: number,
+) => {
+  const { earth, moon } = bodies;
+  const dx = moon.x - earth.x;
+  const dy = moon.y - earth.y;
+  const separation = Math.max(1e-9, Math.hypot(dx, dy));
+  const nx = dx / separation;
+  const ny = dy / separation;
+  const totalMass = earthMass + moonMass;
+  const overlap = Math.max(0, contactDistance - separation);
+  earth.x -= nx * overlap * (moonMass / totalMass);
+  earth.y -= ny * overlap * (moonMass / totalMass);
+  moon.x += nx * overlap * (earthMass / totalMass);
+  moon.y += ny * overlap * (earthMass / totalMass);
+
+  const normalSpeed = (moon.vx - earth.vx) * nx + (moon.vy - earth.vy) * ny;
+  if (normalSpeed >= 0) return 0;
+  const impulse = (-(1 + restitution) * normalSpeed) / (1 / earthMass + 1 / moonMass);
+  earth.vx -= (impulse * nx) / earthMass;
+  earth.vy -= (impulse * ny) / earthMass;
+  moon.vx += (impulse * nx) / moonMass;
+  moon.vy += (impulse * ny) / moonMass;
+  return impulse;
+};
+
+// A perfectly inelastic merge: both bodies take the center-of-mass velocity, conserving total momentum.
+const mergeBodies = (bodies: SystemBodies, earthMass: number, moonMass: number) => {
+  const { earth, moon } = bodies;
+  const totalMass = earthMass + moonMass;
+  const vx = (earth.vx * earthMass + moon.vx * moonMass) / totalMass;
+  const vy = (earth.vy * earthMass + moon.vy * moonMass) / totalMass;
+  earth.vx = vx;
+  earth.vy = vy;
+  moon.vx = vx;
+  moon.vy = vy;
+};
+
+const TRAJECTORY_LABELS: Record<Trajectory, string> = {
+  circular: 'Circular orbit',
+  elliptical: 'Elliptical orbit',
+  escape: 'Escape (hyperbola)',
+  crash: 'Collides with Earth',
+};
+
+const BODY_SYMBOLS: Record<BodyKey, string> = { earth: 'E', moon: 'M', third: 'S' };
+const PAIR_COLORS: Record<string, string> = {
+  'earth-moon': '#f87171',
+  'earth-third': '#34d399',
+  'moon-third': '#fbbf24',
+};
+const NET_FORCE_COLOR = '#e879f9';
+
+const THIRD_BODY_PRESETS: Record<ThirdBodyKind, { label: string; mass: number; distance: number }> = {
+  sun: { label: 'Sun', mass: 25, distance: 340 },
+  satellite: { label: 'Satellite', mass: 0.5, distance: 320 },
+};
+
+const BODY_PAIRS: [BodyKey, BodyKey][] = [
+  ['earth', 'moon'],
+  ['earth', 'third'],
+  ['moon', 'third'],
+];
+
+// Force on `a` exerted by `b`; the force on `b` by `a` is exactly the negative.
+const pairForce = (G: number, a: Body, b: Body, massA: number, massB: number) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const separation = Math.max(1e-9, Math.hypot(dx, dy));
+  const magnitude = gravityForce(G, massA, massB, separation);
+  return { fx: (magnitude * dx) / separation, fy: (magnitude * dy) / separation, magnitude };
+};
 
-export const GravitySimulation = ({ learningMode }: { learningMode: boolean }) => {
+// Every pair contributes +F to one body and −F to the other; the net force on a body is the sum of its pair forces.
+const computeSystemForces = (G: number, bodies: SystemBodies, masses: Masses) => {
+  const net: Record<BodyKey, { fx: number; fy: number }> = {
+    earth: { fx: 0, fy: 0 },
+    moon: { fx: 0, fy: 0 },
+    third: { fx: 0, fy: 0 },
+  };
+  const pairs = BODY_PAIRS.flatMap(([keyA, keyB]) => {
+    const a = bodies[keyA];
+    const b = bodies[keyB];
+    if (!a || !b) return [];
+    const force = pairForce(G, a, b, masses[keyA], masses[keyB]);
+    net[keyA].fx += force.fx;
+    net[keyA].fy += force.fy;
+    net[keyB].fx -= force.fx;
+    net[keyB].fy -= force.fy;
+    return [{ keyA, keyB, ...force }];
+  });
+  return { pairs, net };
+};
+
+const applyGravityKick = (G: number, bodies: SystemBodies, masses: Masses, dt: number) => {
+  const { net } = computeSystemForces(G, bodies, masses);
+  (['earth', 'moon', 'third'] as BodyKey[]).forEach((key) => {
+    const body = bodies[key];
+    if (!body) return;
+    body.vx += (net[key].fx / masses[key]) * dt;
+    body.vy += (net[key].fy / masses[key]) * dt;
+  });
+};
+
+// Velocity Verlet (kick-drift-kick), which is symplectic and keeps closed orbits closed. When `linked`, the Earth and
+// Moon move as one merged body.
+const stepBodies = (G: number, bodies: SystemBodies, masses: Masses, dt: number, linked = false) => {
+  applyGravityKick(G, bodies, masses, dt / 2);
+  if (linked) mergeBodies(bodies, masses.earth, masses.moon);
+  [bodies.earth, bodies.moon, bodies.third].forEach((body) => {
+    if (!body) return;
+    body.x += body.vx * dt;
+    body.y += body.vy * dt;
+  });
+  applyGravityKick(G, bodies, masses, dt / 2);
+  if (linked) mergeBodies(bodies, masses.earth, masses.moon);
+};
+
+// Kinetic and potential energy plus total momentum of the whole system. Internal force pairs cancel in Σp, so it
+// stays at its launch value (zero about the barycenter) whatever the bodies do.
+const computeSystemEnergy = (G: number, bodies: SystemBodies, masses: Masses, t: number): EnergySample => {
+  let kinetic = 0;
+  let px = 0;
+  let py = 0;
+  (['earth', 'moon', 'third'] as BodyKey[]).forEach((key) => {
+    const body = bodies[key];
+    if (!body) return;
+    kinetic += 0.5 * masses[key] * (body.vx * body.vx + body.vy * body.vy);
+    px += masses[key] * body.vx;
+    py += masses[key] * body.vy;
+  });
+  const potential = BODY_PAIRS.reduce((sum, [keyA, keyB]) => {
+    const a = bodies[keyA];
+    const b = bodies[keyB];
+    if (!a || !b) return sum;
+    return sum - (G * masses[keyA] * masses[keyB]) / Math.hypot(b.x - a.x, b.y - a.y);
+  }, 0);
+  return { t, kinetic, potential, total: kinetic + potential, px, py };
+};
+
+const MOMENTUM_DECIMALS = 4;
+const SECONDS_PER_DAY = 86400;
+
+const EnergyPanel = ({
+  samples,
+  isSI,
+  momentumScale,
+}: {
+  samples: EnergySample[];
+  isSI: boolean;
+  momentumScale: number;
+}) => {
+  const latest = samples[samples.length - 1];
+  const formatEnergy = (value: number) => (isSI ? formatScientific(value, 'J') : value.toFixed(0));
+  // Drift in Σp is what students check, so it is shown rather than rounded away; only −0.0000 is normalised.
+  const formatMomentum = (value: number) => {
+    if (isSI) return formatScientific(value, 'kg·m/s', 2);
+    const fixed = value.toFixed(MOMENTUM_DECIMALS);
+    return Number(fixed) === 0 ? (0).toFixed(MOMENTUM_DECIMALS) : fixed;
+  };
+
+  return (
+    <Card
+      elevation={0}
+      sx={{
+        borderRadius: 3,
+        bgcolor: 'rgba(148, 163, 184, 0.12)',
+        border: '1px solid rgba(148, 163, 184, 0.35)',
+        color: '#e2e8f0',
+      }}
+    >
+      <CardContent>
+        <Typography variant="overline" sx={{ color: 'rgba(191, 219, 254, 0.8)' }}>
+          Energy & momentum
+        </Typography>
+        {latest && (
+          <Stack spacing={0.25} sx={{ mt: 0.5 }}>
+            <Typography variant="caption" sx={{ color: '#f87171' }}>
+              Kinetic KE: {formatEnergy(latest.kinetic)}
+            </Typography>
+            <Typography variant="caption" sx={{ color: '#60a5fa' }}>
+              Potential PE: {formatEnergy(latest.potential)}
+            </Typography>
+            <Typography variant="caption" sx={{ color: '#facc15' }}>
+              Total E: {formatEnergy(latest.total)}
+            </Typography>
+            <Typography variant="caption" sx={{ color: '#34d399' }}>
+              Total momentum Σp = ({formatMomentum(latest.px)}, {formatMomentum(latest.py)})
+              {isSI ? '' : ` to ${MOMENTUM_DECIMALS} d.p.`}
+            </Typography>
+            <Typography variant="caption" sx={{ opacity: 0.75 }}>
+              |Σp| / |p_Moon| = {formatScientific(Math.hypot(latest.px, latest.py) / momentumScale, '', 2)}
+            </Typography>
+          </Stack>
+        )}
+        <LineChart
+          height={150}
+          skipAnimation
+          hideLegend
+          margin={{ left: 4, right: 8, top: 8, bottom: 4 }}
+          xAxis={[
+            {
+              data: samples.map((sample) => sample.t),
+              label: isSI ? 'Time (days)' : 'Time (rel)',
+              valueFormatter: (t: number) => (isSI ? (t / SECONDS_PER_DAY).toFixed(1) : t.toFixed(0)),
+            },
+          ]}
+          yAxis={[{ valueFormatter: (value: number) => (isSI ? value.toExponential(0) : value.toFixed(0)) }]}
+          series={[
+            { data: samples.map((sample) => sample.kinetic), label: 'KE', color: '#f87171', showMark: false },
+            { data: samples.map((sample) => sample.potential), label: 'PE', color: '#60a5fa', showMark: false },
+            { data: samples.map((sample) => sample.total), label: 'Total E', color: '#facc15', showMark: false },
+          ]}
+          sx={{
+            '& .MuiChartsAxis-tickLabel': { fill: 'rgba(226, 232, 240, 0.75)' },
+            '& .MuiChartsAxis-line, & .MuiChartsAxis-tick': { stroke: 'rgba(148, 163, 184, 0.5)' },
+          }}
+        />
+        <Typography variant="caption" sx={{ display: 'block', opacity: 0.8 }}>
+          The gravity pair is internal: +F on one body and −F on the other, so Σp never changes. KE and PE trade off
+          while their total stays flat (until a collision turns some of it into heat).
+        </Typography>
+      </CardContent>
+    </Card>
+  );
+};
+
+type SpritePaint = (ctx: CanvasRenderingContext2D, x: number, y: number) => void;
+
+// Padding around a body sprite so its glow is not clipped by the cached layer's edges.
+const SPRITE_GLOW = 32;
+
+const paintEarth =
+  (radius: number): SpritePaint =>
+  (ctx, x, y) => {
+    const earthGradient = ctx.createRadialGradient(x - radius * 0.35, y - radius * 0.35, radius * 0.2, x, y, radius);
+    earthGradient.addColorStop(0, '#bfdbfe');
+    earthGradient.addColorStop(0.45, '#60a5fa');
+    earthGradient.addColorStop(1, '#1e3a8a');
+    ctx.fillStyle = earthGradient;
+    ctx.shadowBlur = 26;
+    ctx.shadowColor = 'rgba(59, 130, 246, 0.55)';
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.shadowBlur = 0;
+
+    ctx.fillStyle = 'rgba(34, 197, 94, 0.5)';
+    ctx.beginPath();
+    ctx.arc(x - radius * 0.2, y - radius * 0.2, radius * 0.35, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.beginPath();
+    ctx.arc(x + radius * 0.3, y + radius * 0.1, radius * 0.25, 0, Math.PI * 2);
+    ctx.fill();
+  };
+
+const paintMoon =
+  (radius: number): SpritePaint =>
+  (ctx, x, y) => {
+    const moonGradient = ctx.createRadialGradient(x - radius * 0.4, y - radius * 0.4, radius * 0.2, x, y, radius);
+    moonGradient.addColorStop(0, '#f1f5f9');
+    moonGradient.addColorStop(0.55, '#cbd5e1');
+    moonGradient.addColorStop(1, '#64748b');
+    ctx.fillStyle = moonGradient;
+    ctx.shadowBlur = 12;
+    ctx.shadowColor = 'rgba(248, 250, 252, 0.35)';
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.shadowBlur = 0;
+
+    ctx.fillStyle = 'rgba(148, 163, 184, 0.6)';
+    ctx.beginPath();
+    ctx.arc(x - radius * 0.2, y + radius * 0.1, radius * 0.25, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.beginPath();
+    ctx.fillStyle = 'rgba(15, 23, 42, 0.18)';
+    ctx.arc(x + radius * 0.25, y + radius * 0.25, radius * 0.9, 0, Math.PI * 2);
+    ctx.fill();
+  };
+
+const paintThirdBody =
+  (kind: ThirdBodyKind, radius: number): SpritePaint =>
+  (ctx, x, y) => {
+    if (kind === 'sun') {
+      const sunGradient = ctx.createRadialGradient(x, y, radius * 0.2, x, y, radius);
+      sunGradient.addColorStop(0, '#fef9c3');
+      sunGradient.addColorStop(0.6, '#facc15');
+      sunGradient.addColorStop(1, '#ea580c');
+      ctx.fillStyle = sunGradient;
+      ctx.shadowBlur = 30;
+      ctx.shadowColor = 'rgba(250, 204, 21, 0.7)';
+    } else {
+      ctx.fillStyle = '#94a3b8';
+    }
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.shadowBlur = 0;
+  };
+
+const FIELD_OVERLAY_LABELS: Record<FieldOverlay, string> = {
+  none: 'Off',
+  vectors: 'Field vectors',
+  contours: 'Equipotentials',
+  heatmap: 'Field strength',
+};
+const FIELD_SOFTENING_PX = 14;
+const CONTOUR_LEVELS = 10;
+// The overlay is cached and only repainted once a body has moved this far, not on every frame.
+const FIELD_BUCKET_PX = 6;
+const CONTOUR_CORNER_X = [0, 1, 1, 0];
+const CONTOUR_CORNER_Y = [0, 0, 1, 1];
+
+// Field g (force per unit mass) and potential φ at a point, summed over every body. `softening` keeps the values
+// finite inside the bodies so the colour and contour scales are not swamped by the singularity.
+const sampleField = (G: number, bodies: SystemBodies, masses: Masses, x: number, y: number, softening: number) => {
+  let gx = 0;
+  let gy = 0;
+  let potential = 0;
+  (['earth', 'moon', 'third'] as BodyKey[]).forEach((key) => {
+    const body = bodies[key];
+    if (!body) return;
+    const dx = body.x - x;
+    const dy = body.y - y;
+    const r = Math.max(Math.hypot(dx, dy), softening);
+    const g = (G * masses[key]) / (r * r);
+    gx += (g * dx) / r;
+    gy += (g * dy) / r;
+    potential -= (G * masses[key]) / r;
+  });
+  return { gx, gy, potential };
+};
+
+// Samples `value` on a screen-space grid; overlays are drawn on log scales so both bodies stay readable.
+const sampleGrid = (view: FieldView, spacing: number, value: (x: number, y: number) => number) => {
+  const cols = Math.ceil(view.width / spacing) + 1;
+  const rows = Math.ceil(view.height / spacing) + 1;
+  const values = new Float64Array(cols * rows);
+  let min = Infinity;
+  let max = -Infinity;
+  for (let row = 0; row < rows; row += 1) {
+    for (let col = 0; col < cols; col += 1) {
+      const v = value(
+        (col * spacing - view.centerX) / view.pxPerLength,
+        (row * spacing - view.centerY) / view.pxPerLength,
+      );
+      values[row * cols + col] = v;
+      min = Math.min(min, v);
+      max = Math.max(max, v);
+    }
+  }
+  return { cols, rows, values, min, max };
+};
+
+const drawFieldOverlay = (
+  ctx: CanvasRenderingContext2D,
+  overlay: FieldOverlay,
+  G: number,
+  bodies: SystemBodies,
+  masses: Masses,
+  view: FieldView,
+) => {
+  const softening = FIELD_SOFTENING_PX / view.pxPerLength;
+  const field = (x: number, y: number) => sampleField(G, bodies, masses, x, y, softening);
+
+  if (overlay === 'heatmap') {
+    const spacing = 12;
+    const grid = sampleGrid(view, spacing, (x, y) => {
+      const { gx, gy } = field(x, y);
+      return Math.log10(Math.hypot(gx, gy));
+    });
+    const range = grid.max - grid.min || 1;
+    for (let row = 0; row < grid.rows; row += 1) {
+      for (let col = 0; col < grid.cols; col += 1) {
+        const t = (grid.values[row * grid.cols + col] - grid.min) / range;
+        ctx.fillStyle = `hsla(${240 - t * 240}, 85%, 55%, ${0.12 + t * 0.3})`;
+        ctx.fillRect(col * spacing - spacing / 2, row * spacing - spacing / 2, spacing, spacing);
+      }
+    }
+    return;
+  }
+
+  if (overlay === 'contours') {
+    const spacing = 10;
+    const grid = sampleGrid(view, spacing, (x, y) => Math.log(-field(x, y).potential));
+    const at = (col: number, row: number) => grid.values[row * grid.cols + col];
+    ctx.strokeStyle = 'rgba(125, 211, 252, 0.5)';
+    ctx.lineWidth = 1;
+    const cornerValues = [0, 0, 0, 0];
+    const crossings = [0, 0, 0, 0, 0, 0, 0, 0];
+    ctx.beginPath();
+    for (let level = 1; level <= CONTOUR_LEVELS; level += 1) {
+      const threshold = grid.min + ((grid.max - grid.min) * level) / (CONTOUR_LEVELS + 1);
+      for (let row = 0; row < grid.rows - 1; row += 1) {
+        for (let col = 0; col < grid.cols - 1; col += 1) {
+          cornerValues[0] = at(col, row);
+          cornerValues[1] = at(col + 1, row);
+          cornerValues[2] = at(col + 1, row + 1);
+          cornerValues[3] = at(col, row + 1);
+          let count = 0;
+          for (let edge = 0; edge < 4; edge += 1) {
+            const next = (edge + 1) % 4;
+            const a = cornerValues[edge];
+            const b = cornerValues[next];
+            if ((a - threshold) * (b - threshold) > 0 || a === b) continue;
+            const t = (threshold - a) / (b - a);
+            const fromX = CONTOUR_CORNER_X[edge];
+            const fromY = CONTOUR_CORNER_Y[edge];
+            crossings[count] = (col + fromX + (CONTOUR_CORNER_X[next] - fromX) * t) * spacing;
+            crossings[count + 1] = (row + fromY + (CONTOUR_CORNER_Y[next] - fromY) * t) * spacing;
+            count += 2;
+          }
+          for (let i = 0; i + 3 < count; i += 4) {
+            ctx.moveTo(crossings[i], crossings[i + 1]);
+            ctx.lineTo(crossings[i + 2], crossings[i + 3]);
+          }
+        }
+      }
+    }
+    ctx.stroke();
+    return;
+  }
+
+  if (overlay === 'vectors') {
+    const spacing = 40;
+    const grid = sampleGrid(view, spacing, (x, y) => {
+      const { gx, gy } = field(x, y);
+      return Math.log10(Math.hypot(gx, gy));
+    });
+    const range = grid.max - grid.min || 1;
+    ctx.strokeStyle = 'rgba(125, 211, 252, 0.6)';
+    ctx.fillStyle = 'rgba(125, 211, 252, 0.6)';
+    ctx.lineWidth = 1.5;
+    for (let row = 0; row < grid.rows; row += 1) {
+      for (let col = 0; col < grid.cols; col += 1) {
+        const x = col * spacing;
+        const y = row * spacing;
+        const { gx, gy } = field((x - view.centerX) / view.pxPerLength, (y - view.centerY) / view.pxPerLength);
+        const angle = Math.atan2(gy, gx);
+        const length = 6 + 16 * ((grid.values[row * grid.cols + col] - grid.min) / range);
+        const tipX = x + Math.cos(angle) * length;
+        const tipY = y + Math.sin(angle) * length;
+        ctx.beginPath();
+        ctx.moveTo(x, y);
+        ctx.lineTo(tipX, tipY);
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.moveTo(tipX, tipY);
+        ctx.lineTo(tipX - 5 * Math.cos(angle - Math.PI / 6), tipY - 5 * Math.sin(angle - Math.PI / 6));
+        ctx.lineTo(tipX - 5 * Math.cos(angle + Math.PI / 6), tipY - 5 * Math.sin(angle + Math.PI / 6));
+        ctx.closePath();
+        ctx.fill();
+      }
+    }
+  }
+};
+
+export const GravitySimulation = ({ learningMode, onOpenTextbook }: SimulationProps) => {
   const [earthMass, setEarthMass] = useState(6);
   const [moonMass, setMoonMass] = useState(3);
   const [distance, setDistance] = useState(220);
-  const [isPaused, setIsPaused] = useState(false);
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>('relative');
+  const [siEarthMass, setSiEarthMass] = useState(5.97e24);
+  const [siMoonMass, setSiMoonMass] = useState(7.35e22);
+  const [siDistanceKm, setSiDistanceKm] = useState(384400);
+  const [launchSpeed, setLaunchSpeed] = useState(1);
+  const [launchAngle, setLaunchAngle] = useState(0);
+  const [liveDistance, setLiveDistance] = useState(220);
+  const [energyTrace, setEnergyTrace] = useState<EnergySample[]>([]);
+  const [collisionMode, setCollisionMode] = useState<CollisionMode>('bounce');
+  const [restitution, setRestitution] = useState(0.6);
+  const [collisionEvent, setCollisionEvent] = useState<CollisionEvent | null>(null);
+  const [showThirdBody, setShowThirdBody] = useState(false);
+  const [thirdKind, setThirdKind] = useState<ThirdBodyKind>('sun');
+  const [thirdMass, setThirdMass] = useState(THIRD_BODY_PRESETS.sun.mass);
+  const [thirdDistance, setThirdDistance] = useState(THIRD_BODY_PRESETS.sun.distance);
+  const [thirdAngle, setThirdAngle] = useState(180);
+  const [fieldOverlay, setFieldOverlay] = useState<FieldOverlay>('none');
+  const [liveForces, setLiveForces] = useState<{ label: string; value: number; color: string }[]>([]);
   const [viewMode, setViewMode] = useState<'diagram' | 'explore'>('diagram');
   const [showAcceleration, setShowAcceleration] = useState(false);
   const [showOrbitPath, setShowOrbitPath] = useState(true);
   const [highlightPair, setHighlightPair] = useState(false);
+  const [massDraft, setMassDraft] = useState<{ body: 'earth' | 'moon'; value: number } | null>(null);
   const [showExplanation, setShowExplanation] = useState(false);
-  const [showTextbook, setShowTextbook] = useState(false);
 
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
   const size = useElementSize(containerRef);
-  const animationRef = useRef<number | null>(null);
-  const starsRef = useRef<{ x: number; y: number; r: number; a: number }[]>([]);
-  const angleRef = useRef(0);
+  const clock = useSimulationClock();
+  const advanceClock = clock.advance;
+  const drawLayer = useCachedLayers();
+  const quiz = useQuiz('gravity', QUESTIONS);
+  const prediction = usePrediction(learningMode && viewMode === 'explore');
+  const recordPrediction = prediction.record;
+  const guide = useGuidedActivity(GUIDED_STEPS);
+  const notifyGuide = guide.notify;
+  const guideStep = guide.current;
+
+  // The first step is a state, not an action, so it also completes when the activity (re)starts in Explore view.
+  useEffect(() => {
+    if (viewMode === 'explore') notifyGuide('view-explore');
+  }, [guideStep, notifyGuide, viewMode]);
+
+  const trialLog = useTrialLog('gravity');
+  const arrowRegionsRef = useRef<ArrowRegion[]>([]);
+  const bodiesRef = useRef<SystemBodies>(createOrbit(UNIT_CONFIGS.relative.G, 6, 3, 220, 0));
+  const collisionRef = useRef({ merged: false, flashTicks: 0, impulse: 0 });
+  const trailRef = useRef<Trail>({ earth: [], moon: [], third: [] });
   const timeRef = useRef(0);
+  const tickCountRef = useRef(0);
+
+  const stars = useMemo(
+    () =>
+      Array.from({ length: 120 }).map(() => ({
+        x: Math.random() * size.width,
+        y: Math.random() * size.height,
+        r: Math.random() * 1.6 + 0.4,
+        a: Math.random() * 0.7 + 0.2,
+      })),
+    [size.width, size.height],
+  );
+
+  const isSI = unitSystem === 'si';
+  const units = UNIT_CONFIGS[unitSystem];
+  const activeEarthMass = isSI ? siEarthMass : earthMass;
+  const activeMoonMass = isSI ? siMoonMass : moonMass;
+  const activeDistance = isSI ? siDistanceKm * 1000 : distance;
+  const earthSize = isSI ? Math.min(10, siEarthMass / 1e24) : earthMass;
+  const moonSize = isSI ? Math.min(10, siMoonMass / 2.5e22) : moonMass;
+  const earthRadius = 26 + earthSize * 2.6;
+  const moonRadius = 12 + moonSize * 1.6;
+  const hasThirdBody = showThirdBody && !isSI;
+  const thirdRadius = 6 + Math.sqrt(thirdMass) * 7;
+  const activeThirdMass = hasThirdBody ? thirdMass : 0;
+  const masses = useMemo(
+    () => ({ earth: activeEarthMass, moon: activeMoonMass, third: activeThirdMass }),
+    [activeEarthMass, activeMoonMass, activeThirdMass],
+  );
+  // Contact is where the drawn discs touch, in either unit system, so the scene never shows a gap or an overlap.
+  // In SI that is far larger than the real radii; the discs are exaggerated the same way.
+  const contactDistance = (earthRadius + moonRadius) / units.pxPerLength;
+  const trajectory = classifyTrajectory(launchSpeed, launchAngle, activeDistance, contactDistance);
+
+  const launch = useCallback(
+    (angle: number) => {
+      bodiesRef.current = createOrbit(
+        units.G,
+        activeEarthMass,
+        activeMoonMass,
+        activeDistance,
+        angle,
+        launchSpeed,
+        launchAngle,
+      );
+      if (hasThirdBody) {
+        addThirdBody(units.G, bodiesRef.current, masses, thirdDistance, (thirdAngle * Math.PI) / 180);
+      }
+      trailRef.current = { earth: [], moon: [], third: [] };
+      tickCountRef.current = 0;
+      collisionRef.current = { merged: false, flashTicks: 0, impulse: 0 };
+      setCollisionEvent(null);
+      setLiveDistance(activeDistance);
+      setEnergyTrace([]);
+    },
+    [
+      activeDistance,
+      activeEarthMass,
+      activeMoonMass,
+      hasThirdBody,
+      launchAngle,
+      launchSpeed,
+      masses,
+      thirdAngle,
+      thirdDistance,
+      units,
+    ],
+  );
 
   useEffect(() => {
-    starsRef.current = Array.from({ length: 120 }).map(() => ({
-      x: Math.random() * size.width,
-      y: Math.random() * size.height,
-      r: Math.random() * 1.6 + 0.4,
-      a: Math.random() * 0.7 + 0.2,
-    }));
-  }, [size.width, size.height]);
-
-  const calculateGravity = useCallback(() => {
-    const G = 24000;
-    const force = (G * earthMass * moonMass) / (distance * distance);
-    return Math.max(0.5, force);
-  }, [distance, earthMass, moonMass]);
-
-  const drawArrow = (
-    ctx: CanvasRenderingContext2D,
-    fromX: number,
-    fromY: number,
-    toX: number,
-    toY: number,
-    color: string,
-    label: string,
-    labelPosition: { x: number; y: number } | null = null,
-  ) => {
-    const headLength = 12;
-    const angle = Math.atan2(toY - fromY, toX - fromX);
-
-    ctx.strokeStyle = color;
-    ctx.fillStyle = color;
-    ctx.lineWidth = 4;
-    ctx.beginPath();
-    ctx.moveTo(fromX, fromY);
-    ctx.lineTo(toX, toY);
-    ctx.stroke();
+    const { earth, moon } = bodiesRef.current;
+    launch(Math.atan2(moon.y - earth.y, moon.x - earth.x));
+  }, [launch]);
 
-    ctx.beginPath();
-    ctx.moveTo(toX, toY);
-    ctx.lineTo(toX - headLength * Math.cos(angle - Math.PI / 6), toY - headLength * Math.sin(angle - Math.PI / 6));
-    ctx.lineTo(toX - headLength * Math.cos(angle + Math.PI / 6), toY - headLength * Math.sin(angle + Math.PI / 6));
-    ctx.closePath();
-    ctx.fill();
+  const calculateGravity = useCallback(
+    (separation: number) => {
+      const force = gravityForce(units.G, activeEarthMass, activeMoonMass, separation);
+      return isSI ? force : Math.max(0.5, force);
+    },
+    [activeEarthMass, activeMoonMass, isSI, units],
+  );
 
-    if (label) {
-      ctx.font = 'bold 13px "Pretendard", sans-serif';
-      if (labelPosition) {
-        ctx.fillText(label, labelPosition.x, labelPosition.y);
-      } else {
-        ctx.fillText(label, toX + Math.cos(angle) * 18, toY + Math.sin(angle) * 18);
+  const tick = useCallback(
+    (dt: number) => {
+      timeRef.current += dt * 1.2;
+      if (viewMode !== 'explore') return;
+      const bodies = bodiesRef.current;
+      const { earth, moon } = bodies;
+      const collision = collisionRef.current;
+      const orbitDt = (dt * units.timePerSecond) / ORBIT_SUBSTEPS;
+      const restingSpeed =
+        RESTING_SPEED_FRACTION * Math.sqrt((units.G * (activeEarthMass + activeMoonMass)) / activeDistance);
+      if (collision.flashTicks > 0) collision.flashTicks -= 1;
+
+      for (let i = 0; i < ORBIT_SUBSTEPS; i += 1) {
+        stepBodies(units.G, bodies, masses, orbitDt, collision.merged);
+        if (collision.merged || Math.hypot(moon.x - earth.x, moon.y - earth.y) > contactDistance) continue;
+
+        const impulse = resolveCollision(
+          bodies,
+          activeEarthMass,
+          activeMoonMass,
+          contactDistance,
+          collisionMode === 'bounce' ? restitution : 0,
+        );
+        const separatingSpeed = Math.hypot(moon.vx - earth.vx, moon.vy - earth.vy);
+        if (collisionMode === 'merge' || separatingSpeed < restingSpeed) {
+          mergeBodies(bodies, activeEarthMass, activeMoonMass);
+          collision.merged = true;
+          setCollisionEvent({ kind: 'merge', impulse });
+        } else if (impulse > 0) {
+          collision.flashTicks = CONTACT_FLASH_TICKS;
+          collision.impulse = impulse;
+          setCollisionEvent({ kind: 'bounce', impulse });
+        }
       }
-    }
-  };
+
+      const separation = Math.hypot(moon.x - earth.x, moon.y - earth.y);
+      tickCountRef.current += 1;
+      if (tickCountRef.current % 6 === 0) {
+        setLiveDistance(separation);
+        const sample = computeSystemEnergy(
+          units.G,
+          bodies,
+          masses,
+          tickCountRef.current * SIM_TIMESTEP * units.timePerSecond,
+        );
+        setEnergyTrace((prev) => [...prev, sample].slice(-ENERGY_HISTORY_LENGTH));
+        if (bodies.third) {
+          const { pairs, net } = computeSystemForces(units.G, bodies, masses);
+          setLiveForces([
+            ...pairs.map((pair) => ({
+              label: `|F_${BODY_SYMBOLS[pair.keyA]}${BODY_SYMBOLS[pair.keyB]}| (pair)`,
+              value: pair.magnitude,
+              color: PAIR_COLORS[`${pair.keyA}-${pair.keyB}`],
+            })),
+            ...(['earth', 'moon', 'third'] as BodyKey[]).map((key) => ({
+              label: `F_net on ${BODY_SYMBOLS[key]}`,
+              value: Math.hypot(net[key].fx, net[key].fy),
+              color: NET_FORCE_COLOR,
+            })),
+          ]);
+        }
+      }
+      const trail = trailRef.current;
+      trail.earth.push({ x: earth.x, y: earth.y });
+      trail.moon.push({ x: moon.x, y: moon.y });
+      if (bodies.third) trail.third.push({ x: bodies.third.x, y: bodies.third.y });
+      if (trail.moon.length > TRAIL_LENGTH) {
+        trail.earth.shift();
+        trail.moon.shift();
+        if (trail.third.length > TRAIL_LENGTH) trail.third.shift();
+      }
+    },
+    [
+      activeDistance,
+      activeEarthMass,
+      activeMoonMass,
+      collisionMode,
+      contactDistance,
+      masses,
+      restitution,
+      units,
+      viewMode,
+    ],
+  );
 
   const draw = useCallback(
     (ctx: CanvasRenderingContext2D) => {
@@ -97,207 +984,285 @@ export const GravitySimulation = ({ learningMode }: { learningMode: boolean }) =
       const centerY = height * 0.5;
       const isDiagram = viewMode === 'diagram';
 
+      const drawSprite = (
+        target: CanvasRenderingContext2D,
+        key: string,
+        x: number,
+        y: number,
+        extent: number,
+        paint: SpritePaint,
+      ) =>
+        drawLayer(
+          target,
+          key,
+          { x: x - extent, y: y - extent, width: extent * 2, height: extent * 2 },
+          (layer, ox, oy) => paint(layer, ox + extent, oy + extent),
+        );
+
       ctx.clearRect(0, 0, width, height);
-      if (isDiagram) {
-        ctx.fillStyle = '#f8fafc';
-        ctx.fillRect(0, 0, width, height);
-        ctx.strokeStyle = 'rgba(15, 23, 42, 0.12)';
-        ctx.lineWidth = 2;
-        ctx.strokeRect(18, 18, width - 36, height - 36);
-      } else {
-        const spaceGradient = ctx.createRadialGradient(centerX, centerY - 180, 40, centerX, centerY, width * 0.9);
+      arrowRegionsRef.current = [];
+      drawLayer(ctx, `background-${viewMode}-${width}x${height}`, { x: 0, y: 0, width, height }, (layer) => {
+        if (isDiagram) {
+          layer.fillStyle = '#f8fafc';
+          layer.fillRect(0, 0, width, height);
+          layer.strokeStyle = 'rgba(15, 23, 42, 0.12)';
+          layer.lineWidth = 2;
+          layer.strokeRect(18, 18, width - 36, height - 36);
+          return;
+        }
+        const spaceGradient = layer.createRadialGradient(centerX, centerY - 180, 40, centerX, centerY, width * 0.9);
         spaceGradient.addColorStop(0, '#101b3a');
         spaceGradient.addColorStop(1, '#020617');
-        ctx.fillStyle = spaceGradient;
-        ctx.fillRect(0, 0, width, height);
-      }
-
-      if (!isDiagram) {
-        starsRef.current.forEach((star) => {
-          ctx.beginPath();
-          ctx.fillStyle = `rgba(248, 250, 252, ${star.a})`;
-          ctx.arc(star.x, star.y, star.r, 0, Math.PI * 2);
-          ctx.fill();
+        layer.fillStyle = spaceGradient;
+        layer.fillRect(0, 0, width, height);
+        stars.forEach((star) => {
+          layer.beginPath();
+          layer.fillStyle = `rgba(248, 250, 252, ${star.a})`;
+          layer.arc(star.x, star.y, star.r, 0, Math.PI * 2);
+          layer.fill();
         });
-      }
+      });
 
-      if (!isPaused && viewMode === 'explore') {
-        const angularSpeed = 0.003 + (260 / distance) * 0.002;
-        angleRef.current += angularSpeed;
-      }
-      if (!isPaused) {
-        timeRef.current += 0.02;
-      }
+      const { pxPerLength } = units;
 
-      const earthRadius = 26 + earthMass * 2.6;
-      const moonRadius = 12 + moonMass * 1.6;
-
-      const moonX = isDiagram ? centerX + distance : centerX + Math.cos(angleRef.current) * distance;
-      const moonY = isDiagram ? centerY : centerY + Math.sin(angleRef.current) * distance;
+      const { earth, moon, third } = bodiesRef.current;
+      if (!isDiagram && fieldOverlay !== 'none') {
+        const cell = (value: number) => Math.round((value * pxPerLength) / FIELD_BUCKET_PX);
+        const bucket = (body: { x: number; y: number } | null) => (body ? `${cell(body.x)},${cell(body.y)}` : '-');
+        const fieldKey = [
+          `field-${fieldOverlay}-${pxPerLength}-${width}x${height}`,
+          `${masses.earth}/${masses.moon}/${masses.third}`,
+          `${bucket(earth)}/${bucket(moon)}/${bucket(third)}`,
+        ].join('-');
+        drawLayer(ctx, fieldKey, { x: 0, y: 0, width, height }, (layer) =>
+          drawFieldOverlay(layer, fieldOverlay, units.G, bodiesRef.current, masses, {
+            width,
+            height,
+            centerX,
+            centerY,
+            pxPerLength,
+          }),
+        );
+      }
+      const isThreeBody = !isDiagram && third !== null;
+      const earthX = isDiagram ? centerX : centerX + earth.x * pxPerLength;
+      const earthY = isDiagram ? centerY : centerY + earth.y * pxPerLength;
+      const moonX = isDiagram ? centerX + activeDistance * pxPerLength : centerX + moon.x * pxPerLength;
+      const moonY = isDiagram ? centerY : centerY + moon.y * pxPerLength;
+      const separation = Math.hypot(moonX - earthX, moonY - earthY);
 
       if (!isDiagram && showOrbitPath) {
-        ctx.beginPath();
-        ctx.strokeStyle = 'rgba(148, 163, 184, 0.35)';
-        ctx.setLineDash([6, 10]);
+        const drawTrail = (points: { x: number; y: number }[], color: string) => {
+          if (points.length < 2) return;
+          ctx.beginPath();
+          ctx.strokeStyle = color;
+          ctx.setLineDash([6, 10]);
+          ctx.lineWidth = 1.5;
+          points.forEach((point, index) => {
+            if (index === 0) ctx.moveTo(centerX + point.x * pxPerLength, centerY + point.y * pxPerLength);
+            else ctx.lineTo(centerX + point.x * pxPerLength, centerY + point.y * pxPerLength);
+          });
+          ctx.stroke();
+          ctx.setLineDash([]);
+        };
+        drawTrail(trailRef.current.third, 'rgba(250, 204, 21, 0.3)');
+        drawTrail(trailRef.current.moon, 'rgba(148, 163, 184, 0.35)');
+        drawTrail(trailRef.current.earth, 'rgba(96, 165, 250, 0.45)');
+
+        ctx.strokeStyle = 'rgba(250, 204, 21, 0.8)';
         ctx.lineWidth = 1.5;
-        ctx.arc(centerX, centerY, distance, 0, Math.PI * 2);
+        ctx.beginPath();
+        ctx.moveTo(centerX - 6, centerY);
+        ctx.lineTo(centerX + 6, centerY);
+        ctx.moveTo(centerX, centerY - 6);
+        ctx.lineTo(centerX, centerY + 6);
         ctx.stroke();
-        ctx.setLineDash([]);
       }
 
       ctx.beginPath();
       ctx.strokeStyle = isDiagram ? 'rgba(15, 23, 42, 0.25)' : 'rgba(148, 163, 184, 0.35)';
       ctx.lineWidth = isDiagram ? 2 : 1;
-      ctx.moveTo(centerX, centerY);
+      ctx.moveTo(earthX, earthY);
       ctx.lineTo(moonX, moonY);
       ctx.stroke();
 
-      const forceMag = calculateGravity();
-      const arrowLength = Math.min(distance - earthRadius - moonRadius - 6, 40 + forceMag * 1.4);
+      const forceMag = calculateGravity(separation / pxPerLength);
+      let legendPxPerForce = units.arrowPerForce;
+      const arrowLength = Math.max(
+        10,
+        Math.min(separation - earthRadius - moonRadius - 6, forceMag * units.arrowPerForce),
+      );
       const pulse =
         highlightPair && viewMode === 'diagram' ? 0.5 + Math.sin(timeRef.current * 2) * 0.5 : 0;
       const highlight = highlightPair ? 0.3 + pulse * 0.4 : 0;
 
-      const angleToEarth = Math.atan2(centerY - moonY, centerX - moonX);
+      const angleToEarth = Math.atan2(earthY - moonY, earthX - moonX);
       const diagramColor = 'rgba(15, 23, 42, 0.85)';
       const actionColor = isDiagram ? diagramColor : `rgba(248, 113, 113, ${0.85 + highlight})`;
       const reactionColor = isDiagram ? diagramColor : `rgba(96, 165, 250, ${0.85 + highlight})`;
-      drawArrow(
-        ctx,
-        moonX,
-        moonY,
-        moonX + Math.cos(angleToEarth) * arrowLength,
-        moonY + Math.sin(angleToEarth) * arrowLength,
-        actionColor,
-        isDiagram ? '' : 'F_E',
-      );
-
-      const angleToMoon = Math.atan2(moonY - centerY, moonX - centerX);
-      drawArrow(
-        ctx,
-        centerX,
-        centerY,
-        centerX + Math.cos(angleToMoon) * arrowLength,
-        centerY + Math.sin(angleToMoon) * arrowLength,
-        reactionColor,
-        isDiagram ? '' : 'F_M',
-      );
+      const angleToMoon = Math.atan2(moonY - earthY, moonX - earthX);
+      if (!isThreeBody) {
+        const moonTipX = moonX + Math.cos(angleToEarth) * arrowLength;
+        const moonTipY = moonY + Math.sin(angleToEarth) * arrowLength;
+        const earthTipX = earthX + Math.cos(angleToMoon) * arrowLength;
+        const earthTipY = earthY + Math.sin(angleToMoon) * arrowLength;
+        drawVector(ctx, moonX, moonY, moonTipX, moonTipY, { color: actionColor, label: isDiagram ? '' : 'F_E' });
+        drawVector(ctx, earthX, earthY, earthTipX, earthTipY, { color: reactionColor, label: isDiagram ? '' : 'F_M' });
+        arrowRegionsRef.current.push(
+          { id: 'F_E', x1: moonX, y1: moonY, x2: moonTipX, y2: moonTipY },
+          { id: 'F_M', x1: earthX, y1: earthY, x2: earthTipX, y2: earthTipY },
+        );
+      }
 
       if (isDiagram) {
-        const midLeftX = (centerX + moonX) / 2 - 20;
-        const midY = centerY - 18;
-        ctx.font = 'bold 14px "Pretendard", sans-serif';
-        ctx.fillStyle = diagramColor;
-        ctx.fillText('F_M', midLeftX - 35, midY);
-        ctx.fillText('F_E', midLeftX + 45, midY);
+        const midLeftX = (earthX + moonX) / 2 - 20;
+        const midY = earthY - 18;
+        drawVectorLabel(ctx, 'F_M', midLeftX - 35, midY, diagramColor, 14);
+        drawVectorLabel(ctx, 'F_E', midLeftX + 45, midY, diagramColor, 14);
       }
 
-      if (showAcceleration) {
-        const accelEarth = forceMag / earthMass;
-        const accelMoon = forceMag / moonMass;
-        const accelScale = 10;
-        const earthAccelLen = Math.min(60, accelEarth * accelScale);
-        const moonAccelLen = Math.min(80, accelMoon * accelScale);
+      if (showAcceleration && !isThreeBody) {
+        const accelEarth = forceMag / activeEarthMass;
+        const accelMoon = forceMag / activeMoonMass;
+        const earthAccelLen = Math.min(60, accelEarth * units.arrowPerAccel);
+        const moonAccelLen = Math.min(80, accelMoon * units.arrowPerAccel);
 
-        ctx.setLineDash([4, 6]);
-        ctx.strokeStyle = 'rgba(96, 165, 250, 0.45)';
-        ctx.lineWidth = 2;
-        ctx.beginPath();
-        ctx.moveTo(centerX - earthRadius - 6, centerY);
-        ctx.lineTo(centerX - earthRadius - 6 - earthAccelLen, centerY);
-        ctx.stroke();
-
-        ctx.strokeStyle = 'rgba(248, 113, 113, 0.45)';
-        ctx.beginPath();
-        ctx.moveTo(moonX + moonRadius + 6, moonY);
-        ctx.lineTo(moonX + moonRadius + 6 + moonAccelLen, moonY);
-        ctx.stroke();
-        ctx.setLineDash([]);
+        const sideX = -Math.sin(angleToMoon);
+        const sideY = Math.cos(angleToMoon);
+        const earthAccelX = earthX + sideX * (earthRadius + 8);
+        const earthAccelY = earthY + sideY * (earthRadius + 8);
+        const moonAccelX = moonX + sideX * (moonRadius + 8);
+        const moonAccelY = moonY + sideY * (moonRadius + 8);
 
-        ctx.font = '600 12px "Pretendard", sans-serif';
-        ctx.fillStyle = 'rgba(226, 232, 240, 0.8)';
-        ctx.fillText('a_E', centerX - earthRadius - 10 - earthAccelLen, centerY - 10);
-        ctx.fillText('a_M', moonX + moonRadius + 10 + moonAccelLen, moonY - 10);
+        drawVector(
+          ctx,
+          earthAccelX,
+          earthAccelY,
+          earthAccelX + Math.cos(angleToMoon) * earthAccelLen,
+          earthAccelY + Math.sin(angleToMoon) * earthAccelLen,
+          { color: 'rgba(96, 165, 250, 0.6)', label: 'a_E', lineWidth: 2, dashed: true, fontSize: 12 },
+        );
+        drawVector(
+          ctx,
+          moonAccelX,
+          moonAccelY,
+          moonAccelX + Math.cos(angleToEarth) * moonAccelLen,
+          moonAccelY + Math.sin(angleToEarth) * moonAccelLen,
+          { color: 'rgba(248, 113, 113, 0.6)', label: 'a_M', lineWidth: 2, dashed: true, fontSize: 12 },
+        );
       }
 
-      ctx.beginPath();
       if (isDiagram) {
         ctx.fillStyle = '#cfe3f7';
-        ctx.shadowBlur = 0;
-        ctx.shadowColor = 'transparent';
-      } else {
-        const earthGradient = ctx.createRadialGradient(
-          centerX - earthRadius * 0.35,
-          centerY - earthRadius * 0.35,
-          earthRadius * 0.2,
-          centerX,
-          centerY,
-          earthRadius,
-        );
-        earthGradient.addColorStop(0, '#bfdbfe');
-        earthGradient.addColorStop(0.45, '#60a5fa');
-        earthGradient.addColorStop(1, '#1e3a8a');
-        ctx.fillStyle = earthGradient;
-        ctx.shadowBlur = 26;
-        ctx.shadowColor = 'rgba(59, 130, 246, 0.55)';
-      }
-      ctx.arc(centerX, centerY, earthRadius, 0, Math.PI * 2);
-      ctx.fill();
-      ctx.shadowBlur = 0;
-
-      if (!isDiagram) {
-        ctx.fillStyle = 'rgba(34, 197, 94, 0.5)';
         ctx.beginPath();
-        ctx.arc(centerX - earthRadius * 0.2, centerY - earthRadius * 0.2, earthRadius * 0.35, 0, Math.PI * 2);
+        ctx.arc(earthX, earthY, earthRadius, 0, Math.PI * 2);
         ctx.fill();
+        ctx.fillStyle = '#d1d5db';
         ctx.beginPath();
-        ctx.arc(centerX + earthRadius * 0.3, centerY + earthRadius * 0.1, earthRadius * 0.25, 0, Math.PI * 2);
+        ctx.arc(moonX, moonY, moonRadius, 0, Math.PI * 2);
         ctx.fill();
+      } else {
+        drawSprite(ctx, `earth-${earthRadius}`, earthX, earthY, earthRadius + SPRITE_GLOW, paintEarth(earthRadius));
+        drawSprite(ctx, `moon-${moonRadius}`, moonX, moonY, moonRadius + SPRITE_GLOW, paintMoon(moonRadius));
       }
 
-      ctx.beginPath();
-      if (isDiagram) {
-        ctx.fillStyle = '#d1d5db';
-        ctx.shadowBlur = 0;
-        ctx.shadowColor = 'transparent';
-      } else {
-        const moonGradient = ctx.createRadialGradient(
-          moonX - moonRadius * 0.4,
-          moonY - moonRadius * 0.4,
-          moonRadius * 0.2,
-          moonX,
-          moonY,
-          moonRadius,
+      const collision = collisionRef.current;
+      if (!isDiagram && (collision.merged || collision.flashTicks > 0)) {
+        const relativeSpeed = Math.sqrt((units.G * (activeEarthMass + activeMoonMass)) / activeDistance);
+        const contactLength = collision.merged
+          ? Math.min(70, forceMag * units.arrowPerForce)
+          : 30 + 40 * Math.min(1, collision.impulse / (activeMoonMass * relativeSpeed));
+        const fade = collision.merged ? 1 : collision.flashTicks / CONTACT_FLASH_TICKS;
+        const contactX = earthX + Math.cos(angleToMoon) * earthRadius;
+        const contactY = earthY + Math.sin(angleToMoon) * earthRadius;
+        drawVector(
+          ctx,
+          contactX,
+          contactY,
+          contactX + Math.cos(angleToMoon) * contactLength,
+          contactY + Math.sin(angleToMoon) * contactLength,
+          { color: `rgba(52, 211, 153, ${fade})`, label: 'N_E' },
+        );
+        drawVector(
+          ctx,
+          contactX,
+          contactY,
+          contactX + Math.cos(angleToEarth) * contactLength,
+          contactY + Math.sin(angleToEarth) * contactLength,
+          { color: `rgba(251, 191, 36, ${fade})`, label: 'N_M' },
         );
-        moonGradient.addColorStop(0, '#f1f5f9');
-        moonGradient.addColorStop(0.55, '#cbd5e1');
-        moonGradient.addColorStop(1, '#64748b');
-        ctx.fillStyle = moonGradient;
-        ctx.shadowBlur = 12;
-        ctx.shadowColor = 'rgba(248, 250, 252, 0.35)';
       }
-      ctx.arc(moonX, moonY, moonRadius, 0, Math.PI * 2);
-      ctx.fill();
-      ctx.shadowBlur = 0;
+
+      if (isThreeBody && third) {
+        const thirdX = centerX + third.x * pxPerLength;
+        const thirdY = centerY + third.y * pxPerLength;
+        drawSprite(
+          ctx,
+          `${thirdKind}-${thirdRadius}`,
+          thirdX,
+          thirdY,
+          thirdRadius + SPRITE_GLOW,
+          paintThirdBody(thirdKind, thirdRadius),
+        );
+
+        const screen: Record<BodyKey, { x: number; y: number; r: number }> = {
+          earth: { x: earthX, y: earthY, r: earthRadius },
+          moon: { x: moonX, y: moonY, r: moonRadius },
+          third: { x: thirdX, y: thirdY, r: thirdRadius },
+        };
+        const { pairs, net } = computeSystemForces(units.G, bodiesRef.current, masses);
+        const maxForce = Math.max(...pairs.map((pair) => pair.magnitude), 1e-9);
+        const pxPerForce = 90 / maxForce;
+        legendPxPerForce = pxPerForce;
+        const forceArrow = (key: BodyKey, fx: number, fy: number, options: VectorOptions, offset = 0) => {
+          const { x, y, r } = screen[key];
+          const magnitude = Math.hypot(fx, fy);
+          if (magnitude === 0) return;
+          const ux = fx / magnitude;
+          const uy = fy / magnitude;
+          const startX = x + ux * (r + 4) - uy * offset;
+          const startY = y + uy * (r + 4) + ux * offset;
+          const length = Math.max(12, magnitude * pxPerForce);
+          drawVector(ctx, startX, startY, startX + ux * length, startY + uy * length, options);
+        };
+
+        pairs.forEach(({ keyA, keyB, fx, fy }) => {
+          const color = PAIR_COLORS[`${keyA}-${keyB}`];
+          const a = BODY_SYMBOLS[keyA];
+          const b = BODY_SYMBOLS[keyB];
+          forceArrow(keyA, fx, fy, { color, label: `F_${b}→${a}` });
+          forceArrow(keyB, -fx, -fy, { color, label: `F_${a}→${b}` });
+        });
+        (['earth', 'moon', 'third'] as BodyKey[]).forEach((key) => {
+          forceArrow(key, net[key].fx, net[key].fy, { color: NET_FORCE_COLOR, label: 'F_net', dashed: true }, 10);
+        });
+      }
 
       if (!isDiagram) {
-        ctx.fillStyle = 'rgba(148, 163, 184, 0.6)';
-        ctx.beginPath();
-        ctx.arc(moonX - moonRadius * 0.2, moonY + moonRadius * 0.1, moonRadius * 0.25, 0, Math.PI * 2);
-        ctx.fill();
-        ctx.beginPath();
-        ctx.fillStyle = 'rgba(15, 23, 42, 0.18)';
-        ctx.arc(moonX + moonRadius * 0.25, moonY + moonRadius * 0.25, moonRadius * 0.9, 0, Math.PI * 2);
-        ctx.fill();
+        drawScaleLegend(ctx, centerX - 80, height - 28, {
+          unitsPerPx: 1 / legendPxPerForce,
+          unit: isSI ? 'N' : 'force units',
+          color: 'rgba(226, 232, 240, 0.8)',
+          formatValue: isSI ? formatScientific : undefined,
+        });
       }
     },
     [
       calculateGravity,
-      distance,
-      earthMass,
-      isPaused,
-      moonMass,
+      drawLayer,
+      fieldOverlay,
+      isSI,
+      masses,
+      thirdKind,
+      thirdRadius,
+      activeDistance,
+      activeEarthMass,
+      activeMoonMass,
+      earthRadius,
+      moonRadius,
+      units,
       size,
+      stars,
       showAcceleration,
       showOrbitPath,
       viewMode,
@@ -305,39 +1270,116 @@ export const GravitySimulation = ({ learningMode }: { learningMode: boolean }) =
     ],
   );
 
-  useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const dpr = window.devicePixelRatio || 1;
-    canvas.width = size.width * dpr;
-    canvas.height = size.height * dpr;
-    canvas.style.width = `${size.width}px`;
-    canvas.style.height = `${size.height}px`;
-    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
-
-    const render = () => {
-      draw(ctx);
-      animationRef.current = requestAnimationFrame(render);
-    };
-    render();
-    return () => {
-      if (animationRef.current) cancelAnimationFrame(animationRef.current);
-    };
-  }, [draw, size.height, size.width]);
+  useRenderLoop(canvasRef, size, (ctx, now) => {
+    advanceClock(now, tick);
+    draw(ctx);
+  });
 
   const reset = () => {
     setEarthMass(6);
     setMoonMass(3);
     setDistance(220);
-    angleRef.current = 0;
+    setSiEarthMass(5.97e24);
+    setSiMoonMass(7.35e22);
+    setSiDistanceKm(384400);
+    setLaunchSpeed(1);
+    setLaunchAngle(0);
+    setShowThirdBody(false);
+    setThirdKind('sun');
+    setThirdMass(THIRD_BODY_PRESETS.sun.mass);
+    setThirdDistance(THIRD_BODY_PRESETS.sun.distance);
+    setThirdAngle(180);
+    bodiesRef.current = isSI
+      ? createOrbit(units.G, 5.97e24, 7.35e22, 384400 * 1000, 0)
+      : createOrbit(units.G, 6, 3, 220, 0);
+    trailRef.current = { earth: [], moon: [], third: [] };
+    collisionRef.current = { merged: false, flashTicks: 0, impulse: 0 };
+    setCollisionEvent(null);
+    setLiveDistance(isSI ? 384400 * 1000 : 220);
+    setEnergyTrace([]);
+  };
+
+  const relaunch = () => {
+    const { earth, moon } = bodiesRef.current;
+    launch(Math.atan2(moon.y - earth.y, moon.x - earth.x));
+  };
+
+  const requestMassChange = (apply: () => void, note: string) =>
+    prediction.request(() => {
+      apply();
+      guide.notify('mass-changed');
+    }, note);
+  // While a prediction would be asked for, dragging a mass slider only moves its thumb. The change is requested once,
+  // on release, and the mass is applied after the student commits (or the thumb snaps back on cancel).
+  const holdsMassChange = learningMode && viewMode === 'explore' && prediction.phase === 'idle';
+  const massSliderValue = (body: 'earth' | 'moon', value: number) =>
+    massDraft?.body === body ? massDraft.value : value;
+  const dragMass = (body: 'earth' | 'moon', value: number, apply: () => void) => {
+    if (holdsMassChange) setMassDraft({ body, value });
+    else requestMassChange(apply, '');
+  };
+  const releaseMass = (body: 'earth' | 'moon', apply: () => void, note: string) => {
+    if (holdsMassChange && massDraft?.body === body) requestMassChange(apply, note);
+  };
+  const changeDistance = (apply: () => void) => {
+    apply();
+    guide.notify('distance-changed');
+  };
+
+  const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const hit = hitTestArrows(arrowRegionsRef.current, event.clientX - rect.left, event.clientY - rect.top);
+    if (hit) quiz.pickArrow(hit);
   };
 
-  const forceValue = calculateGravity();
-  const earthAccel = forceValue / earthMass;
-  const moonAccel = forceValue / moonMass;
+  const readoutDistance = viewMode === 'explore' ? liveDistance : activeDistance;
+  const forceValue = calculateGravity(readoutDistance);
+  const earthAccel = forceValue / activeEarthMass;
+  const moonAccel = forceValue / activeMoonMass;
+  const forceText = isSI ? formatScientific(forceValue, 'N') : forceValue.toFixed(1);
+  const earthAccelText = isSI ? formatScientific(earthAccel, 'm/s²') : earthAccel.toFixed(2);
+  const moonAccelText = isSI ? formatScientific(moonAccel, 'm/s²') : moonAccel.toFixed(2);
+  const distanceText = isSI
+    ? `${Math.round(readoutDistance / 1000).toLocaleString('en-US')} km`
+    : `${Math.round(readoutDistance)}px`;
+  const recordTrial = () =>
+    trialLog.add({
+      units: isSI ? 'SI' : 'relative',
+      earthMass: activeEarthMass,
+      moonMass: activeMoonMass,
+      distance: readoutDistance,
+      force: forceValue,
+      earthAccel,
+      moonAccel,
+    });
+
+  const heavierBody = activeEarthMass === activeMoonMass ? null : activeEarthMass > activeMoonMass ? 'earth' : 'moon';
+  const fasterBody = heavierBody === null ? 'same' : heavierBody === 'earth' ? 'moon' : 'earth';
+  useEffect(() => {
+    if (prediction.phase !== 'observe') return;
+    recordPrediction({
+      rows: [
+        { label: 'F_E = F_M', value: forceText },
+        { label: 'a_E', value: earthAccelText },
+        { label: 'a_M', value: moonAccelText },
+      ],
+      outcome: fasterBody,
+    });
+  }, [earthAccelText, fasterBody, forceText, moonAccelText, prediction.phase, recordPrediction]);
+
+  useEffect(() => {
+    if (prediction.phase !== 'predict') setMassDraft(null);
+  }, [prediction.phase]);
+
+  const recorder = useCanvasRecorder(canvasRef, {
+    fileName: 'earth-moon-clip',
+    readouts: [
+      'Force pair: |F_E| = |F_M|',
+      `Force${isSI ? '' : ' (rel)'}: ${forceText}`,
+      `Distance r: ${distanceText}`,
+      `a_E: ${earthAccelText} | a_M: ${moonAccelText}`,
+    ],
+  });
 
   return (
     <Box sx={{ display: 'flex', height: '100%', minHeight: 0, overflow: 'hidden' }}>
@@ -383,11 +1425,7 @@ export const GravitySimulation = ({ learningMode }: { learningMode: boolean }) =
                 <Typography variant="overline" sx={{ color: 'rgba(191, 219, 254, 0.9)' }}>
                   Guided mode
                 </Typography>
-                <Stack spacing={0.6} sx={{ mt: 1 }}>
-                  <Typography variant="body2">1) Change mass or distance.</Typography>
-                  <Typography variant="body2">2) Compare F_E and F_M arrows.</Typography>
-                  <Typography variant="body2">3) Check acceleration values.</Typography>
-                </Stack>
+                <GuidedSteps guide={guide} tone="dark" />
                 <Button
                   variant="outlined"
                   size="small"
@@ -396,14 +1434,16 @@ export const GravitySimulation = ({ learningMode }: { learningMode: boolean }) =
                 >
                   {showExplanation ? 'Hide explanation' : 'Show explanation'}
                 </Button>
-                <Button
-                  variant="contained"
-                  size="small"
-                  sx={{ mt: 1, fontWeight: 700, bgcolor: '#1d4ed8' }}
-                  onClick={() => setShowTextbook(true)}
-                >
-                  Open textbook explanation
-                </Button>
+                {onOpenTextbook && (
+                  <Button
+                    variant="contained"
+                    size="small"
+                    sx={{ mt: 1, fontWeight: 700, bgcolor: '#1d4ed8' }}
+                    onClick={onOpenTextbook}
+                  >
+                    Open textbook explanation
+                  </Button>
+                )}
               </CardContent>
             </Card>
           </Box>
@@ -442,37 +1482,293 @@ export const GravitySimulation = ({ learningMode }: { learningMode: boolean }) =
             <Typography variant="caption">Explore</Typography>
           </Stack>
         </Box>
+        {viewMode === 'diagram' && (
+          <SceneExportControls
+            size={size}
+            onExport={(format, scale) => exportScene(draw, size, format, scale, 'earth-moon-diagram')}
+            tone="dark"
+          />
+        )}
         {viewMode === 'explore' && (
           <>
-            <ControlSlider
-              label="Earth Mass"
-              value={earthMass}
-              onChange={setEarthMass}
-              min={1}
-              max={10}
-              unit="Mₑ"
-              tone="dark"
-            />
-            <ControlSlider
-              label="Moon Mass"
-              value={moonMass}
-              onChange={setMoonMass}
-              min={1}
-              max={10}
-              unit="Mₘ"
-              tone="dark"
-            />
-            <ControlSlider
-              label="Distance"
-              value={distance}
-              onChange={setDistance}
-              min={120}
-              max={350}
-              step={5}
-              unit="px"
+            <Box>
+              <Typography variant="overline" sx={{ color: 'rgba(148, 163, 184, 0.9)' }}>
+                Units
+              </Typography>
+              <Stack direction="row" alignItems="center" spacing={1} sx={{ mt: 1 }}>
+                <Typography variant="caption">Relative</Typography>
+                <Switch
+                  checked={isSI}
+                  disabled={showThirdBody}
+                  onChange={(_, checked) => setUnitSystem(checked ? 'si' : 'relative')}
+                  color="secondary"
+                />
+                <Typography variant="caption">Real (SI)</Typography>
+              </Stack>
+              {showThirdBody && (
+                <Typography variant="caption" sx={{ display: 'block', opacity: 0.8 }}>
+                  Real units need the third body off: at true scale the Sun sits about 390 Earth–Moon distances away,
+                  far beyond the edge of the screen.
+                </Typography>
+              )}
+            </Box>
+            {isSI ? (
+              <>
+                <Box>
+                  <ControlSlider
+                    label="Earth Mass"
+                    value={massSliderValue('earth', Number((siEarthMass / 1e24).toFixed(3)))}
+                    onChange={(value) => dragMass('earth', value, () => setSiEarthMass(value * 1e24))}
+                    onChangeCommitted={(value) =>
+                      releaseMass('earth', () => setSiEarthMass(value * 1e24), `Earth mass → ${value} × 10²⁴ kg`)
+                    }
+                    disabled={prediction.phase === 'predict'}
+                    min={0.1}
+                    max={10}
+                    step={0.01}
+                    unit="× 10²⁴ kg"
+                    tone="dark"
+                  />
+                  <Stack direction="row" spacing={0.5} sx={{ flexWrap: 'wrap', gap: 0.5 }}>
+                    {EARTH_MASS_PRESETS.map((preset) => (
+                      <Chip
+                        key={preset.label}
+                        label={preset.label}
+                        size="small"
+                        onClick={() => requestMassChange(() => setSiEarthMass(preset.kg), `Earth → ${preset.label}`)}
+                        sx={presetChipSx(siEarthMass === preset.kg)}
+                      />
+                    ))}
+                  </Stack>
+                </Box>
+                <Box>
+                  <ControlSlider
+                    label="Moon Mass"
+                    value={massSliderValue('moon', Number((siMoonMass / 1e22).toFixed(3)))}
+                    onChange={(value) => dragMass('moon', value, () => setSiMoonMass(value * 1e22))}
+                    onChangeCommitted={(value) =>
+                      releaseMass('moon', () => setSiMoonMass(value * 1e22), `Moon mass → ${value} × 10²² kg`)
+                    }
+                    disabled={prediction.phase === 'predict'}
+                    min={0.1}
+                    max={20}
+                    step={0.01}
+                    unit="× 10²² kg"
+                    tone="dark"
+                  />
+                  <Stack direction="row" spacing={0.5} sx={{ flexWrap: 'wrap', gap: 0.5 }}>
+                    {MOON_MASS_PRESETS.map((preset) => (
+                      <Chip
+                        key={preset.label}
+                        label={preset.label}
+                        size="small"
+                        onClick={() => requestMassChange(() => setSiMoonMass(preset.kg), `Moon → ${preset.label}`)}
+                        sx={presetChipSx(siMoonMass === preset.kg)}
+                      />
+                    ))}
+                  </Stack>
+                </Box>
+                <ControlSlider
+                  label="Distance"
+                  value={siDistanceKm}
+                  onChange={(value) => changeDistance(() => setSiDistanceKm(value))}
+                  min={100000}
+                  max={600000}
+                  step={100}
+                  unit="km"
+                  formatValue={(value) => value.toLocaleString('en-US')}
+                  tone="dark"
+                />
+              </>
+            ) : (
+              <>
+                <ControlSlider
+                  label="Earth Mass"
+                  value={massSliderValue('earth', earthMass)}
+                  onChange={(value) => dragMass('earth', value, () => setEarthMass(value))}
+                  onChangeCommitted={(value) =>
+                    releaseMass('earth', () => setEarthMass(value), `Earth mass: ${earthMass} → ${value} Mₑ`)
+                  }
+                  disabled={prediction.phase === 'predict'}
+                  min={1}
+                  max={10}
+                  unit="Mₑ"
+                  tone="dark"
+                />
+                <ControlSlider
+                  label="Moon Mass"
+                  value={massSliderValue('moon', moonMass)}
+                  onChange={(value) => dragMass('moon', value, () => setMoonMass(value))}
+                  onChangeCommitted={(value) =>
+                    releaseMass('moon', () => setMoonMass(value), `Moon mass: ${moonMass} → ${value} Mₘ`)
+                  }
+                  disabled={prediction.phase === 'predict'}
+                  min={1}
+                  max={10}
+                  unit="Mₘ"
+                  tone="dark"
+                />
+                <ControlSlider
+                  label="Distance"
+                  value={distance}
+                  onChange={(value) => changeDistance(() => setDistance(value))}
+                  min={120}
+                  max={350}
+                  step={5}
+                  unit="px"
+                  tone="dark"
+                />
+              </>
+            )}
+            <PredictionCard prediction={prediction} prompts={PREDICTION} tone="dark" />
+            <TrialTable
+              log={trialLog}
+              columns={TRIAL_COLUMNS}
+              title="Earth–Moon trials"
+              fileName="earth-moon-trials"
+              onRecord={recordTrial}
               tone="dark"
             />
             <Divider sx={{ borderColor: 'rgba(148, 163, 184, 0.3)' }} />
+            <Box>
+              <Typography variant="overline" sx={{ color: 'rgba(148, 163, 184, 0.9)' }}>
+                Moon launch
+              </Typography>
+              <Stack spacing={2} sx={{ mt: 1 }}>
+                <ControlSlider
+                  label="Launch Speed"
+                  value={launchSpeed}
+                  onChange={setLaunchSpeed}
+                  min={0}
+                  max={1.6}
+                  step={0.05}
+                  unit="× v_circ"
+                  tone="dark"
+                />
+                <ControlSlider
+                  label="Launch Direction"
+                  value={launchAngle}
+                  onChange={setLaunchAngle}
+                  min={-60}
+                  max={60}
+                  step={5}
+                  unit="° outward"
+                  tone="dark"
+                />
+                <Stack direction="row" alignItems="center" justifyContent="space-between" spacing={1}>
+                  <Chip
+                    label={TRAJECTORY_LABELS[trajectory]}
+                    size="small"
+                    sx={{
+                      fontWeight: 700,
+                      color: '#f8fafc',
+                      bgcolor: trajectory === 'crash' ? 'rgba(239, 68, 68, 0.45)' : 'rgba(59, 130, 246, 0.35)',
+                    }}
+                  />
+                  <Button
+                    variant="outlined"
+                    size="small"
+                    onClick={relaunch}
+                    sx={{ fontWeight: 700, color: '#e2e8f0', borderColor: 'rgba(226, 232, 240, 0.5)' }}
+                  >
+                    Relaunch
+                  </Button>
+                </Stack>
+              </Stack>
+            </Box>
+            <Box>
+              <Typography variant="overline" sx={{ color: 'rgba(148, 163, 184, 0.9)' }}>
+                On collision
+              </Typography>
+              <Stack direction="row" alignItems="center" spacing={1} sx={{ mt: 1 }}>
+                <Typography variant="caption">Merge</Typography>
+                <Switch
+                  checked={collisionMode === 'bounce'}
+                  onChange={(_, checked) => setCollisionMode(checked ? 'bounce' : 'merge')}
+                  color="secondary"
+                />
+                <Typography variant="caption">Bounce</Typography>
+              </Stack>
+              {collisionMode === 'bounce' && (
+                <Box sx={{ mt: 1 }}>
+                  <ControlSlider
+                    label="Restitution e"
+                    value={restitution}
+                    onChange={setRestitution}
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    tone="dark"
+                  />
+                </Box>
+              )}
+            </Box>
+            <Box>
+              <Typography variant="overline" sx={{ color: 'rgba(148, 163, 184, 0.9)' }}>
+                Third body
+              </Typography>
+              <Stack direction="row" alignItems="center" spacing={1} sx={{ mt: 1 }}>
+                <Typography variant="caption">Off</Typography>
+                <Switch
+                  checked={showThirdBody}
+                  onChange={(_, checked) => {
+                    setShowThirdBody(checked);
+                    if (checked) setUnitSystem('relative');
+                  }}
+                  color="secondary"
+                />
+                <Typography variant="caption">On</Typography>
+              </Stack>
+              {showThirdBody && (
+                <Stack spacing={1} sx={{ mt: 1 }}>
+                  <Stack direction="row" spacing={0.5} sx={{ flexWrap: 'wrap', gap: 0.5 }}>
+                    {(Object.keys(THIRD_BODY_PRESETS) as ThirdBodyKind[]).map((kind) => (
+                      <Chip
+                        key={kind}
+                        label={THIRD_BODY_PRESETS[kind].label}
+                        size="small"
+                        onClick={() => {
+                          setThirdKind(kind);
+                          setThirdMass(THIRD_BODY_PRESETS[kind].mass);
+                          setThirdDistance(THIRD_BODY_PRESETS[kind].distance);
+                        }}
+                        sx={presetChipSx(thirdKind === kind)}
+                      />
+                    ))}
+                  </Stack>
+                  <ControlSlider
+                    label={`${THIRD_BODY_PRESETS[thirdKind].label} Mass`}
+                    value={thirdMass}
+                    onChange={setThirdMass}
+                    min={0.5}
+                    max={30}
+                    step={0.5}
+                    tone="dark"
+                  />
+                  <ControlSlider
+                    label="Distance from Earth"
+                    value={thirdDistance}
+                    onChange={setThirdDistance}
+                    min={150}
+                    max={420}
+                    step={10}
+                    unit="px"
+                    tone="dark"
+                  />
+                  <ControlSlider
+                    label="Position Angle"
+                    value={thirdAngle}
+                    onChange={setThirdAngle}
+                    min={0}
+                    max={345}
+                    step={15}
+                    unit="°"
+                    tone="dark"
+                  />
+                </Stack>
+              )}
+            </Box>
+            <Divider sx={{ borderColor: 'rgba(148, 163, 184, 0.3)' }} />
             <Box>
               <Typography variant="overline" sx={{ color: 'rgba(148, 163, 184, 0.9)' }}>
                 Explore tools
@@ -489,7 +1785,10 @@ export const GravitySimulation = ({ learningMode }: { learningMode: boolean }) =
                 <Typography variant="caption">Show acceleration</Typography>
                 <Switch
                   checked={showAcceleration}
-                  onChange={(_, checked) => setShowAcceleration(checked)}
+                  onChange={(_, checked) => {
+                    setShowAcceleration(checked);
+                    if (checked) guide.notify('acceleration-shown');
+                  }}
                   color="secondary"
                 />
               </Stack>
@@ -497,32 +1796,45 @@ export const GravitySimulation = ({ learningMode }: { learningMode: boolean }) =
                 <Typography variant="caption">Highlight force pair</Typography>
                 <Switch
                   checked={highlightPair}
-                  onChange={(_, checked) => setHighlightPair(checked)}
+                  onChange={(_, checked) => {
+                    setHighlightPair(checked);
+                    if (checked) guide.notify('pair-highlighted');
+                  }}
                   color="secondary"
                 />
               </Stack>
+              <Typography variant="caption" sx={{ mt: 1, display: 'block' }}>
+                Field overlay
+              </Typography>
+              <Stack direction="row" spacing={0.5} sx={{ mt: 0.5, flexWrap: 'wrap', gap: 0.5 }}>
+                {(Object.keys(FIELD_OVERLAY_LABELS) as FieldOverlay[]).map((overlay) => (
+                  <Chip
+                    key={overlay}
+                    label={FIELD_OVERLAY_LABELS[overlay]}
+                    size="small"
+                    onClick={() => setFieldOverlay(overlay)}
+                    sx={presetChipSx(fieldOverlay === overlay)}
+                  />
+                ))}
+              </Stack>
             </Box>
-            <Stack direction="row" spacing={1}>
-              <Button
-                variant="contained"
-                fullWidth
-                onClick={() => setIsPaused((prev) => !prev)}
-                startIcon={isPaused ? <PlayArrowRounded /> : <PauseRounded />}
-                sx={{ py: 1.1, fontWeight: 700, bgcolor: '#1d4ed8' }}
-              >
-                {isPaused ? 'Resume' : 'Pause'}
-              </Button>
-              <IconButton
-                onClick={reset}
-                sx={{
-                  border: '1px solid rgba(226, 232, 240, 0.3)',
-                  borderRadius: 2,
-                  color: '#f8fafc',
-                }}
-              >
-                <AutorenewRounded />
-              </IconButton>
-            </Stack>
+            <SimClockControls
+              clock={clock}
+              tone="dark"
+              actions={
+                <IconButton
+                  onClick={reset}
+                  sx={{
+                    border: '1px solid rgba(226, 232, 240, 0.3)',
+                    borderRadius: 2,
+                    color: '#f8fafc',
+                  }}
+                >
+                  <AutorenewRounded />
+                </IconButton>
+              }
+            />
+            <RecordControls recorder={recorder} tone="dark" />
           </>
         )}
         <Box
@@ -545,19 +1857,36 @@ export const GravitySimulation = ({ learningMode }: { learningMode: boolean }) =
             object.
           </Typography>
           <Typography variant="caption" sx={{ mt: 1, display: 'block', opacity: 0.75 }}>
-            Formula: F ∝ (m₁ × m₂) / r²
+            {isSI ? 'Formula: F = G × m₁ × m₂ / r², G = 6.674 × 10⁻¹¹ N·m²/kg²' : 'Formula: F ∝ (m₁ × m₂) / r²'}
           </Typography>
           <Divider sx={{ borderColor: 'rgba(148, 163, 184, 0.3)', my: 1.5 }} />
           <Typography variant="caption" sx={{ display: 'block', opacity: 0.85 }}>
-            Force (relative units): {forceValue.toFixed(1)}
+            Force{isSI ? '' : ' (relative units)'}: {forceText}
           </Typography>
           <Typography variant="caption" sx={{ display: 'block', opacity: 0.85 }}>
-            Acceleration of Earth: {earthAccel.toFixed(2)}
+            Acceleration of Earth: {earthAccelText}
           </Typography>
           <Typography variant="caption" sx={{ display: 'block', opacity: 0.85 }}>
-            Acceleration of Moon: {moonAccel.toFixed(2)}
+            Acceleration of Moon: {moonAccelText}
           </Typography>
+          {hasThirdBody && viewMode === 'explore' && (
+            <>
+              <Divider sx={{ borderColor: 'rgba(148, 163, 184, 0.3)', my: 1.5 }} />
+              {liveForces.map((item) => (
+                <Typography key={item.label} variant="caption" sx={{ display: 'block', color: item.color }}>
+                  {item.label}: {item.value.toFixed(1)}
+                </Typography>
+              ))}
+            </>
+          )}
         </Box>
+        {viewMode === 'explore' && (
+          <EnergyPanel
+            samples={energyTrace}
+            isSI={isSI}
+            momentumScale={activeMoonMass * Math.sqrt((units.G * (activeEarthMass + activeMoonMass)) / activeDistance)}
+          />
+        )}
         {viewMode === 'explore' && (
           <Card
             elevation={0}
@@ -574,10 +1903,12 @@ export const GravitySimulation = ({ learningMode }: { learningMode: boolean }) =
               </Typography>
               <Typography variant="body2" sx={{ mt: 1, color: 'rgba(226, 232, 240, 0.9)' }}>
                 Increase Earth mass or Moon mass. The force arrows stay the same length, but the smaller mass has a
-                larger acceleration.
+                larger acceleration. Both bodies orbit their shared center of mass (+), so the Earth wobbles too.
               </Typography>
               <Typography variant="caption" sx={{ mt: 1, display: 'block', opacity: 0.8 }}>
-                Scale note: values are in relative units (not real‑world Newtons).
+                {isSI
+                  ? `Scale note: 1 px = ${KM_PER_PX.toLocaleString('en-US')} km, and 1 s on screen ≈ 1.4 days.`
+                  : 'Scale note: values are in relative units (not real‑world Newtons).'}
               </Typography>
             </CardContent>
           </Card>
@@ -602,29 +1933,7 @@ export const GravitySimulation = ({ learningMode }: { learningMode: boolean }) =
             </CardContent>
           </Card>
         )}
-        {viewMode === 'explore' && (
-          <Card
-            elevation={0}
-            sx={{
-              borderRadius: 3,
-              bgcolor: 'rgba(15, 23, 42, 0.2)',
-              border: '1px solid rgba(148, 163, 184, 0.35)',
-              color: '#e2e8f0',
-            }}
-          >
-            <CardContent>
-              <Typography variant="overline" sx={{ color: 'rgba(191, 219, 254, 0.8)' }}>
-                Check question
-              </Typography>
-              <Typography variant="body2" sx={{ mt: 1, color: 'rgba(226, 232, 240, 0.9)' }}>
-                If Earth is much larger, does it pull harder on the Moon?
-              </Typography>
-              <Typography variant="caption" sx={{ mt: 1, display: 'block', opacity: 0.8 }}>
-                Answer: No. The forces are equal; Earth’s larger mass means smaller acceleration.
-              </Typography>
-            </CardContent>
-          </Card>
-        )}
+        <QuizCard quiz={quiz} tone="dark" />
       </Paper>
 
       <Box
@@ -675,13 +1984,13 @@ export const GravitySimulation = ({ learningMode }: { learningMode: boolean }) =
             }}
           >
             <Typography variant="caption" sx={{ display: 'block', opacity: 0.9 }}>
-              Force (rel): {forceValue.toFixed(1)}
+              Force{isSI ? '' : ' (rel)'}: {forceText}
             </Typography>
             <Typography variant="caption" sx={{ display: 'block', opacity: 0.9 }}>
-              Distance r: {distance}px
+              Distance r: {distanceText}
             </Typography>
             <Typography variant="caption" sx={{ display: 'block', opacity: 0.9 }}>
-              a_E: {earthAccel.toFixed(2)} | a_M: {moonAccel.toFixed(2)}
+              a_E: {earthAccelText} | a_M: {moonAccelText}
             </Typography>
           </Paper>
         )}
@@ -706,7 +2015,41 @@ export const GravitySimulation = ({ learningMode }: { learningMode: boolean }) =
           </Paper>
         )}
 
-        <canvas ref={canvasRef} />
+        <canvas
+          ref={canvasRef}
+          onClick={handleCanvasClick}
+          style={{ cursor: quiz.awaitingArrow ? 'crosshair' : undefined }}
+        />
+
+        {viewMode === 'explore' && collisionEvent && (
+          <Paper
+            elevation={0}
+            sx={{
+              position: 'absolute',
+              bottom: 24,
+              left: 24,
+              px: 2.5,
+              py: 2,
+              borderRadius: 2,
+              bgcolor: 'rgba(15, 23, 42, 0.72)',
+              border: '1px solid rgba(52, 211, 153, 0.5)',
+              color: '#e2e8f0',
+              maxWidth: 280,
+            }}
+          >
+            <Typography variant="subtitle2" sx={{ fontWeight: 800, mb: 1 }}>
+              {collisionEvent.kind === 'merge' ? 'Collision: bodies merged' : 'Collision: bounce'}
+            </Typography>
+            <Typography variant="caption" sx={{ display: 'block', opacity: 0.9 }}>
+              Contact impulse J:{' '}
+              {isSI ? formatScientific(collisionEvent.impulse, 'N·s') : collisionEvent.impulse.toFixed(1)}
+            </Typography>
+            <Typography variant="caption" sx={{ display: 'block', opacity: 0.9, mt: 0.5 }}>
+              The contact forces N_E (Earth on Moon) and N_M (Moon on Earth) are a second action–reaction pair: equal
+              in size, opposite in direction, acting on different bodies.
+            </Typography>
+          </Paper>
+        )}
 
         {viewMode === 'explore' && (
           <Paper
@@ -734,17 +2077,17 @@ export const GravitySimulation = ({ learningMode }: { learningMode: boolean }) =
           </Paper>
         )}
       </Box>
-      <Dialog open={showTextbook} onClose={() => setShowTextbook(false)} maxWidth="sm" fullWidth>
-        <DialogTitle>Textbook explanation — Example 2</DialogTitle>
-        <DialogContent>
-          <Box
-            component="img"
-            src="/textbook_example2.png"
-            alt="Textbook Example 2: Non-contact force between the Earth and the Moon"
-            sx={{ width: '100%', borderRadius: 2, border: '1px solid rgba(148, 163, 184, 0.35)' }}
-          />
-        </DialogContent>
-      </Dialog>
     </Box>
   );
 };
+
+export const gravityDefinition: SimulationDefinition = {
+  path: '/example2',
+  label: 'Example 2: Non-contact Force',
+  icon: <PublicRounded />,
+  Component: GravitySimulation,
+  keyConcept:
+    'The Earth and the Moon pull on each other with equal and opposite forces without ever touching. Different masses give different accelerations, not different forces.',
+  chips: ['Non-contact', 'Equal magnitude', 'a = F / m'],
+  textbook: TEXTBOOK,
+};
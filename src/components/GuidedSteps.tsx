@@ -0,0 +1,85 @@
+import React, { useCallback, useState } from 'react';
+import { Box, Button, Stack, Typography } from '@mui/material';
+import { CheckCircleRounded, LockRounded, RadioButtonUncheckedRounded } from '@mui/icons-material';
+
+// A step completes when any of its `events` is reported while it is the current step, so activities are authored
+// as plain data and the simulation only has to call `notify` at the matching moments.
+export type GuidedStep = { label: string; hint: string; events: string[] };
+
+export const useGuidedActivity = (steps: GuidedStep[]) => {
+  const [current, setCurrent] = useState(0);
+
+  const notify = useCallback(
+    (event: string) => {
+      setCurrent((prev) => (steps[prev]?.events.includes(event) ? prev + 1 : prev));
+    },
+    [steps],
+  );
+
+  return {
+    steps,
+    current,
+    complete: current >= steps.length,
+    notify,
+    restart: () => setCurrent(0),
+  };
+};
+
+export type GuidedActivity = ReturnType<typeof useGuidedActivity>;
+
+export const GuidedSteps = ({ guide, tone = 'light' }: { guide: GuidedActivity; tone?: 'light' | 'dark' }) => {
+  const isLight = tone === 'light';
+  const doneColor = isLight ? '#16a34a' : '#4ade80';
+  const currentColor = isLight ? 'rgba(30, 64, 175, 0.9)' : 'rgba(191, 219, 254, 0.95)';
+  const lockedColor = isLight ? 'rgba(100, 116, 139, 0.6)' : 'rgba(148, 163, 184, 0.6)';
+
+  return (
+    <Stack spacing={0.8} sx={{ mt: 1 }}>
+      {guide.steps.map((step, index) => {
+        const done = index < guide.current;
+        const active = index === guide.current;
+        const Icon = done ? CheckCircleRounded : active ? RadioButtonUncheckedRounded : LockRounded;
+        return (
+          <Box key={step.label}>
+            <Stack direction="row" spacing={1} alignItems="center">
+              <Icon sx={{ fontSize: 18, color: done ? doneColor : active ? currentColor : lockedColor }} />
+              <Typography
+                variant="body2"
+                sx={{
+                  fontWeight: active ? 700 : 400,
+                  color: done || active ? undefined : lockedColor,
+                  textDecoration: done ? 'line-through' : undefined,
+                }}
+              >
+                {index + 1}) {step.label}
+              </Typography>
+            </Stack>
+            {active && (
+              <Typography variant="caption" sx={{ display: 'block', ml: 3.25, color: currentColor }}>
+                {step.hint}
+              </Typography>
+            )}
+          </Box>
+        );
+      })}
+      {guide.complete && (
+        <Box
+          sx={{
+            px: 1.5,
+            py: 1,
+            borderRadius: 2,
+            bgcolor: 'rgba(22, 163, 74, 0.15)',
+            border: '1px solid rgba(22, 163, 74, 0.45)',
+          }}
+        >
+          <Typography variant="body2" sx={{ fontWeight: 800 }}>
+            Activity complete!
+          </Typography>
+          <Button size="small" onClick={guide.restart} sx={{ mt: 0.5, px: 0, fontWeight: 700, color: doneColor }}>
+            Start again
+          </Button>
+        </Box>
+      )}
+    </Stack>
+  );
+};
@@ -0,0 +1,517 @@
+import React, { useCallback, useRef, useState } from 'react';
+import { Box, Button, Card, CardContent, Chip, Paper, Stack, Switch, Typography } from '@mui/material';
+import { AdjustRounded, AutorenewRounded, SwapVertRounded } from '@mui/icons-material';
+import {
+  ControlSlider,
+  drawVector,
+  ForceCard,
+  SimClockControls,
+  SimulationDefinition,
+  useCachedLayers,
+  useElementSize,
+  useRenderLoop,
+  useSimulationClock,
+} from './simShared';
+
+type PuckKey = 'a' | 'b';
+type Pole = 'N' | 'S';
+type Puck = { x: number; y: number; vx: number; vy: number };
+
+const TABLE_SPAN_CM = 48;
+const PUCK_RADIUS_CM = 2;
+const PUCK_MASS_KG = 0.2;
+const MAGNET_CONSTANT = 800;
+// d⁻⁴ spans five decades across the table (about 0.003 N apart to over 300 N touching), so arrow length is
+// logarithmic: every tenfold increase in force adds the same length beyond the puck rim.
+const ARROW_MIN_FORCE_N = 1e-3;
+const ARROW_PX_PER_DECADE = 22;
+const ARROW_MIN_PX = 10;
+const READOUT_INTERVAL = 6;
+
+const createPucks = (): Record<PuckKey, Puck> => ({
+  a: { x: -8, y: 0, vx: 0, vy: 0 },
+  b: { x: 8, y: 0, vx: 0, vy: 0 },
+});
+
+// Two pucks magnetised through their thickness behave like parallel dipoles: F = k·s_A·s_B / d⁴ along the line
+// between them. Matching faces repel, opposite faces attract, and doubling the gap cuts the force sixteen-fold.
+const calculateMagnetForce = (strengthA: number, strengthB: number, distanceCm: number) =>
+  (MAGNET_CONSTANT * strengthA * strengthB) / Math.max(2 * PUCK_RADIUS_CM, distanceCm) ** 4;
+
+const getLayout = (width: number, height: number) => {
+  const pxPerCm = Math.min(width, height * 1.6) / TABLE_SPAN_CM;
+  return {
+    pxPerCm,
+    centerX: width / 2,
+    centerY: height / 2,
+    limitX: width / 2 / pxPerCm,
+    limitY: height / 2 / pxPerCm,
+  };
+};
+
+const POLE_COLORS: Record<Pole, string> = { N: '#ef4444', S: '#3b82f6' };
+
+const paintPuck =
+  (pole: Pole, radius: number) => (layer: CanvasRenderingContext2D, originX: number, originY: number) => {
+    const cx = originX + radius + 6;
+    const cy = originY + radius + 6;
+    layer.fillStyle = 'rgba(0, 0, 0, 0.35)';
+    layer.beginPath();
+    layer.arc(cx + 3, cy + 4, radius, 0, Math.PI * 2);
+    layer.fill();
+    const face = layer.createRadialGradient(cx - radius * 0.3, cy - radius * 0.3, radius * 0.1, cx, cy, radius);
+    face.addColorStop(0, pole === 'N' ? '#fca5a5' : '#93c5fd');
+    face.addColorStop(1, POLE_COLORS[pole]);
+    layer.fillStyle = face;
+    layer.beginPath();
+    layer.arc(cx, cy, radius, 0, Math.PI * 2);
+    layer.fill();
+    layer.strokeStyle = 'rgba(248, 250, 252, 0.7)';
+    layer.lineWidth = 2;
+    layer.stroke();
+    layer.fillStyle = '#f8fafc';
+    layer.font = `bold ${Math.round(radius * 0.8)}px "Pretendard", sans-serif`;
+    layer.textAlign = 'center';
+    layer.textBaseline = 'middle';
+    layer.fillText(pole, cx, cy);
+  };
+
+export const MagnetSimulation = ({ learningMode }: { learningMode: boolean }) => {
+  const [strengthA, setStrengthA] = useState(5);
+  const [strengthB, setStrengthB] = useState(5);
+  const [poles, setPoles] = useState<Record<PuckKey, Pole>>({ a: 'N', b: 'N' });
+  const [isReleased, setIsReleased] = useState(false);
+  const [distance, setDistance] = useState(16);
+  const [dragging, setDragging] = useState<PuckKey | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const size = useElementSize(containerRef);
+  const clock = useSimulationClock();
+  const advanceClock = clock.advance;
+  const drawLayer = useCachedLayers();
+  const pucksRef = useRef(createPucks());
+  const draggingRef = useRef<PuckKey | null>(null);
+  const ticksRef = useRef(0);
+
+  const repel = poles.a === poles.b;
+  const force = calculateMagnetForce(strengthA, strengthB, distance);
+
+  const syncDistance = useCallback(() => {
+    const { a, b } = pucksRef.current;
+    setDistance(Math.hypot(b.x - a.x, b.y - a.y));
+  }, []);
+
+  const reset = () => {
+    pucksRef.current = createPucks();
+    setIsReleased(false);
+    syncDistance();
+  };
+
+  const tick = useCallback(
+    (dt: number) => {
+      if (!isReleased) return;
+      const { a, b } = pucksRef.current;
+      const { limitX, limitY } = getLayout(size.width, size.height);
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const separation = Math.hypot(dx, dy) || 1e-6;
+      const touching = separation <= 2 * PUCK_RADIUS_CM + 1e-3;
+      const magnitude = touching && !repel ? 0 : calculateMagnetForce(strengthA, strengthB, separation);
+      const sign = repel ? 1 : -1;
+      // Acceleration in cm/s² for puck B; puck A gets the opposite.
+      const accelX = (sign * magnitude * (dx / separation) * 100) / PUCK_MASS_KG;
+      const accelY = (sign * magnitude * (dy / separation) * 100) / PUCK_MASS_KG;
+
+      const movePuck = (key: PuckKey, puck: Puck, direction: 1 | -1) => {
+        if (draggingRef.current === key) return;
+        puck.vx += direction * accelX * dt;
+        puck.vy += direction * accelY * dt;
+        puck.x += puck.vx * dt;
+        puck.y += puck.vy * dt;
+        const maxX = limitX - PUCK_RADIUS_CM;
+        const maxY = limitY - PUCK_RADIUS_CM;
+        if (Math.abs(puck.x) > maxX) {
+          puck.x = Math.sign(puck.x) * maxX;
+          puck.vx = 0;
+        }
+        if (Math.abs(puck.y) > maxY) {
+          puck.y = Math.sign(puck.y) * maxY;
+          puck.vy = 0;
+        }
+      };
+      movePuck('a', a, -1);
+      movePuck('b', b, 1);
+
+      const gapX = b.x - a.x;
+      const gapY = b.y - a.y;
+      const gap = Math.hypot(gapX, gapY) || 1e-6;
+      if (gap < 2 * PUCK_RADIUS_CM) {
+        const push = (2 * PUCK_RADIUS_CM - gap) / 2;
+        a.x -= (gapX / gap) * push;
+        a.y -= (gapY / gap) * push;
+        b.x += (gapX / gap) * push;
+        b.y += (gapY / gap) * push;
+        const vx = (a.vx + b.vx) / 2;
+        const vy = (a.vy + b.vy) / 2;
+        a.vx = vx;
+        a.vy = vy;
+        b.vx = vx;
+        b.vy = vy;
+      }
+
+      ticksRef.current += 1;
+      if (ticksRef.current % READOUT_INTERVAL === 0) syncDistance();
+    },
+    [isReleased, repel, size, strengthA, strengthB, syncDistance],
+  );
+
+  const draw = useCallback(
+    (ctx: CanvasRenderingContext2D) => {
+      const { width, height } = size;
+      const { pxPerCm, centerX, centerY } = getLayout(width, height);
+      const { a, b } = pucksRef.current;
+
+      ctx.clearRect(0, 0, width, height);
+      drawLayer(ctx, `table-${width}x${height}`, { x: 0, y: 0, width, height }, (layer) => {
+        const felt = layer.createRadialGradient(centerX, centerY, 40, centerX, centerY, Math.max(width, height) * 0.7);
+        felt.addColorStop(0, '#1e293b');
+        felt.addColorStop(1, '#0b1120');
+        layer.fillStyle = felt;
+        layer.fillRect(0, 0, width, height);
+        layer.strokeStyle = 'rgba(148, 163, 184, 0.12)';
+        layer.lineWidth = 1;
+        const grid = 4 * pxPerCm;
+        for (let x = centerX % grid; x < width; x += grid) {
+          layer.beginPath();
+          layer.moveTo(x, 0);
+          layer.lineTo(x, height);
+          layer.stroke();
+        }
+        for (let y = centerY % grid; y < height; y += grid) {
+          layer.beginPath();
+          layer.moveTo(0, y);
+          layer.lineTo(width, y);
+          layer.stroke();
+        }
+      });
+
+      const ax = centerX + a.x * pxPerCm;
+      const ay = centerY + a.y * pxPerCm;
+      const bx = centerX + b.x * pxPerCm;
+      const by = centerY + b.y * pxPerCm;
+      const radius = PUCK_RADIUS_CM * pxPerCm;
+      const separation = Math.hypot(bx - ax, by - ay);
+
+      ctx.beginPath();
+      ctx.strokeStyle = 'rgba(148, 163, 184, 0.35)';
+      ctx.lineWidth = 1;
+      ctx.moveTo(ax, ay);
+      ctx.lineTo(bx, by);
+      ctx.stroke();
+
+      const spriteSize = (radius + 6) * 2;
+      drawLayer(
+        ctx,
+        `puck-${poles.a}-${radius}`,
+        { x: ax - radius - 6, y: ay - radius - 6, width: spriteSize, height: spriteSize },
+        paintPuck(poles.a, radius),
+      );
+      drawLayer(
+        ctx,
+        `puck-${poles.b}-${radius}`,
+        { x: bx - radius - 6, y: by - radius - 6, width: spriteSize, height: spriteSize },
+        paintPuck(poles.b, radius),
+      );
+      ctx.fillStyle = 'rgba(226, 232, 240, 0.9)';
+      ctx.font = 'bold 13px "Pretendard", sans-serif';
+      ctx.fillText('A', ax - 4, ay - radius - 12);
+      ctx.fillText('B', bx - 4, by - radius - 12);
+
+      // Arrows start at the rim and are drawn over the sprites, so even the shortest one clears the puck face.
+      const forceMag = calculateMagnetForce(strengthA, strengthB, separation / pxPerCm);
+      const length = Math.max(
+        ARROW_MIN_PX,
+        Math.min(height * 0.35, Math.log10(forceMag / ARROW_MIN_FORCE_N) * ARROW_PX_PER_DECADE),
+      );
+      const angleToB = Math.atan2(by - ay, bx - ax);
+      const angleToA = angleToB + Math.PI;
+      const directionOnB = repel ? angleToB : angleToA;
+      const directionOnA = repel ? angleToA : angleToB;
+      const drawForceOn = (x: number, y: number, direction: number, color: string, label: string) => {
+        const startX = x + Math.cos(direction) * radius;
+        const startY = y + Math.sin(direction) * radius;
+        drawVector(ctx, startX, startY, startX + Math.cos(direction) * length, startY + Math.sin(direction) * length, {
+          color,
+          label,
+        });
+      };
+      drawForceOn(bx, by, directionOnB, 'rgba(248, 113, 113, 0.95)', 'F_A');
+      drawForceOn(ax, ay, directionOnA, 'rgba(96, 165, 250, 0.95)', 'F_B');
+
+      ctx.fillStyle = 'rgba(226, 232, 240, 0.85)';
+      ctx.font = '600 12px "Pretendard", sans-serif';
+      ctx.fillText(`Log scale: +${ARROW_PX_PER_DECADE} px per ×10 force`, 24, height - 24);
+    },
+    [drawLayer, poles, repel, size, strengthA, strengthB],
+  );
+
+  useRenderLoop(canvasRef, size, (ctx, now) => {
+    advanceClock(now, tick);
+    draw(ctx);
+  });
+
+  const toTable = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const { pxPerCm, centerX, centerY } = getLayout(size.width, size.height);
+    return { x: (event.clientX - rect.left - centerX) / pxPerCm, y: (event.clientY - rect.top - centerY) / pxPerCm };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = toTable(event);
+    const hit = (['a', 'b'] as PuckKey[]).find((key) => {
+      const puck = pucksRef.current[key];
+      return Math.hypot(puck.x - point.x, puck.y - point.y) <= PUCK_RADIUS_CM * 1.3;
+    });
+    if (!hit) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    draggingRef.current = hit;
+    setDragging(hit);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const key = draggingRef.current;
+    if (!key) return;
+    const { limitX, limitY } = getLayout(size.width, size.height);
+    const point = toTable(event);
+    const other = pucksRef.current[key === 'a' ? 'b' : 'a'];
+    let x = Math.max(-limitX + PUCK_RADIUS_CM, Math.min(limitX - PUCK_RADIUS_CM, point.x));
+    let y = Math.max(-limitY + PUCK_RADIUS_CM, Math.min(limitY - PUCK_RADIUS_CM, point.y));
+    const gap = Math.hypot(x - other.x, y - other.y) || 1e-6;
+    if (gap < 2 * PUCK_RADIUS_CM) {
+      x = other.x + ((x - other.x) / gap) * 2 * PUCK_RADIUS_CM;
+      y = other.y + ((y - other.y) / gap) * 2 * PUCK_RADIUS_CM;
+    }
+    pucksRef.current[key] = { x, y, vx: 0, vy: 0 };
+    syncDistance();
+  };
+
+  const handlePointerUp = () => {
+    draggingRef.current = null;
+    setDragging(null);
+  };
+
+  const flipPole = (key: PuckKey) => setPoles((prev) => ({ ...prev, [key]: prev[key] === 'N' ? 'S' : 'N' }));
+
+  return (
+    <Box sx={{ display: 'flex', height: '100%', minHeight: 0, overflow: 'hidden' }}>
+      <Paper
+        elevation={0}
+        sx={{
+          width: 320,
+          height: '100%',
+          borderRight: '1px solid rgba(15, 23, 42, 0.15)',
+          p: 3,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 3,
+          overflow: 'auto',
+          background: 'linear-gradient(180deg, rgba(15,23,42,0.96) 0%, rgba(30,41,59,0.96) 100%)',
+          color: '#f8fafc',
+        }}
+      >
+        <Box>
+          <Typography variant="h6" sx={{ mb: 1 }}>
+            Example 7 — Non-contact force between two magnets
+          </Typography>
+          <Typography variant="body2" sx={{ color: 'rgba(226, 232, 240, 0.85)' }}>
+            Two magnetic pucks sit on a frictionless table. Without touching:
+          </Typography>
+          <Stack spacing={0.5} sx={{ mt: 1 }}>
+            <Typography variant="body2">• puck A pushes or pulls puck B with a force F_A</Typography>
+            <Typography variant="body2">• puck B pushes or pulls puck A with a force F_B</Typography>
+          </Stack>
+        </Box>
+        {learningMode && (
+          <Card
+            elevation={0}
+            sx={{
+              borderRadius: 3,
+              bgcolor: 'rgba(59, 130, 246, 0.18)',
+              border: '1px solid rgba(59, 130, 246, 0.35)',
+              color: '#e2e8f0',
+            }}
+          >
+            <CardContent>
+              <Typography variant="overline" sx={{ color: 'rgba(191, 219, 254, 0.9)' }}>
+                Guided mode
+              </Typography>
+              <Stack spacing={0.6} sx={{ mt: 1 }}>
+                <Typography variant="body2">1) Drag the pucks closer and farther apart.</Typography>
+                <Typography variant="body2">2) Flip one puck to switch between attract and repel.</Typography>
+                <Typography variant="body2">3) Make one magnet much stronger and compare F_A and F_B.</Typography>
+              </Stack>
+            </CardContent>
+          </Card>
+        )}
+        <Box>
+          <Typography variant="overline" sx={{ color: 'rgba(148, 163, 184, 0.9)' }}>
+            Top faces
+          </Typography>
+          <Stack direction="row" spacing={1} sx={{ mt: 1 }}>
+            {(['a', 'b'] as PuckKey[]).map((key) => (
+              <Button
+                key={key}
+                variant="outlined"
+                fullWidth
+                startIcon={<SwapVertRounded />}
+                onClick={() => flipPole(key)}
+                sx={{ fontWeight: 700, color: POLE_COLORS[poles[key]], borderColor: POLE_COLORS[poles[key]] }}
+              >
+                {key.toUpperCase()}: {poles[key]}
+              </Button>
+            ))}
+          </Stack>
+          <Chip
+            label={repel ? 'Like poles: repel' : 'Unlike poles: attract'}
+            size="small"
+            sx={{
+              mt: 1.5,
+              fontWeight: 700,
+              bgcolor: repel ? 'rgba(248, 113, 113, 0.2)' : 'rgba(52, 211, 153, 0.2)',
+              color: '#e2e8f0',
+            }}
+          />
+        </Box>
+        <Stack spacing={2}>
+          <ControlSlider
+            label="Magnet A Strength"
+            value={strengthA}
+            onChange={setStrengthA}
+            min={1}
+            max={10}
+            tone="dark"
+          />
+          <ControlSlider
+            label="Magnet B Strength"
+            value={strengthB}
+            onChange={setStrengthB}
+            min={1}
+            max={10}
+            tone="dark"
+          />
+        </Stack>
+        <Box>
+          <Typography variant="overline" sx={{ color: 'rgba(148, 163, 184, 0.9)' }}>
+            Motion
+          </Typography>
+          <Stack direction="row" alignItems="center" spacing={1} sx={{ mt: 1 }}>
+            <Typography variant="caption">Hold</Typography>
+            <Switch checked={isReleased} onChange={(_, checked) => setIsReleased(checked)} color="secondary" />
+            <Typography variant="caption">Release</Typography>
+          </Stack>
+          <Button
+            variant="outlined"
+            size="small"
+            startIcon={<AutorenewRounded />}
+            onClick={reset}
+            sx={{ mt: 1, fontWeight: 700, color: '#e2e8f0', borderColor: 'rgba(226, 232, 240, 0.5)' }}
+          >
+            Reset positions
+          </Button>
+        </Box>
+        {isReleased && <SimClockControls clock={clock} tone="dark" />}
+        <Box
+          sx={{
+            borderRadius: 3,
+            bgcolor: 'rgba(15, 23, 42, 0.75)',
+            border: '1px solid rgba(148, 163, 184, 0.35)',
+            color: '#e2e8f0',
+            px: 2,
+            py: 1.5,
+          }}
+        >
+          <Typography variant="overline" sx={{ color: 'rgba(191, 219, 254, 0.8)' }}>
+            Force model
+          </Typography>
+          <Typography variant="caption" sx={{ display: 'block' }}>
+            F = k·s_A·s_B / d⁴ = {force.toFixed(2)} N at d = {distance.toFixed(1)} cm
+          </Typography>
+          <Typography variant="caption" sx={{ display: 'block' }}>
+            Acceleration of each puck a = F / m = {(force / PUCK_MASS_KG).toFixed(1)} m/s²
+          </Typography>
+        </Box>
+        <Box sx={{ mt: 'auto', pt: 2 }}>
+          <Chip label="Pull or push, |F_A| = |F_B|" color="primary" sx={{ fontWeight: 700 }} />
+        </Box>
+      </Paper>
+
+      <Box
+        ref={containerRef}
+        sx={{
+          flex: 1,
+          minWidth: 0,
+          height: '100%',
+          position: 'relative',
+          overflow: 'hidden',
+        }}
+      >
+        <Stack direction="row" spacing={2} sx={{ position: 'absolute', top: 24, left: 24, zIndex: 2 }}>
+          <ForceCard
+            title="Force on puck B"
+            value={`${force.toFixed(2)} N`}
+            color="#f87171"
+            sub={repel ? 'F_A, away from A' : 'F_A, toward A'}
+            variant="dark"
+          />
+          <Typography variant="h4" sx={{ fontWeight: 800, color: 'rgba(226, 232, 240, 0.6)' }}>
+            =
+          </Typography>
+          <ForceCard
+            title="Force on puck A"
+            value={`${force.toFixed(2)} N`}
+            color="#60a5fa"
+            sub={repel ? 'F_B, away from B' : 'F_B, toward B'}
+            variant="dark"
+          />
+        </Stack>
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          style={{ cursor: dragging ? 'grabbing' : 'grab', touchAction: 'none' }}
+        />
+        <Paper
+          elevation={0}
+          sx={{
+            position: 'absolute',
+            bottom: 28,
+            left: '50%',
+            transform: 'translateX(-50%)',
+            px: 3,
+            py: 1.2,
+            borderRadius: 999,
+            bgcolor: 'rgba(15, 23, 42, 0.75)',
+            color: '#f8fafc',
+            border: '1px solid rgba(148, 163, 184, 0.35)',
+          }}
+        >
+          <Typography variant="caption" sx={{ fontWeight: 700 }}>
+            Drag either puck to change the gap
+          </Typography>
+        </Paper>
+      </Box>
+    </Box>
+  );
+};
+
+export const magnetDefinition: SimulationDefinition = {
+  path: '/example7',
+  label: 'Example 7: Magnets',
+  icon: <AdjustRounded />,
+  Component: MagnetSimulation,
+  keyConcept:
+    'Magnets interact without touching. Whether they attract or repel, and even when one is much stronger, both magnets feel forces of the same size.',
+  chips: ['Attract or repel', 'Equal magnitude', 'Non-contact'],
+};
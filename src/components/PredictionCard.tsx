@@ -0,0 +1,261 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Box, Button, Card, CardContent, Chip, Stack, TextField, Typography } from '@mui/material';
+
+type PredictionPhase = 'idle' | 'predict' | 'observe' | 'explain';
+export type PredictionOption = { id: string; label: string };
+export type PredictionObservation = { rows: { label: string; value: string }[]; outcome: string };
+
+// Predict–Observe–Explain: `request` holds back an action until the student has committed to a prediction, then
+// runs it. The caller reports what actually happened through `record`; only the first observation is kept.
+export const usePrediction = (enabled: boolean) => {
+  const [phase, setPhase] = useState<PredictionPhase>('idle');
+  const [prediction, setPrediction] = useState<string | null>(null);
+  const [observation, setObservation] = useState<PredictionObservation | null>(null);
+  const [reasoning, setReasoning] = useState('');
+  const [revealed, setRevealed] = useState(false);
+  const [pendingNote, setPendingNote] = useState('');
+  const phaseRef = useRef<PredictionPhase>('idle');
+  const pendingRef = useRef<(() => void) | null>(null);
+
+  const moveTo = (next: PredictionPhase) => {
+    phaseRef.current = next;
+    setPhase(next);
+  };
+
+  const reset = useCallback(() => {
+    pendingRef.current = null;
+    phaseRef.current = 'idle';
+    setPhase('idle');
+    setPrediction(null);
+    setObservation(null);
+    setReasoning('');
+    setRevealed(false);
+    setPendingNote('');
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) reset();
+  }, [enabled, reset]);
+
+  const request = (action: () => void, note = '') => {
+    if (!enabled || phase === 'observe' || phase === 'explain') {
+      action();
+      return;
+    }
+    pendingRef.current = action;
+    setPendingNote(note);
+    moveTo('predict');
+  };
+
+  const commit = (choice: string) => {
+    setPrediction(choice);
+    setObservation(null);
+    moveTo('observe');
+    pendingRef.current?.();
+    pendingRef.current = null;
+  };
+
+  const record = useCallback((next: PredictionObservation) => {
+    if (phaseRef.current !== 'observe') return;
+    setObservation((prev) => prev ?? next);
+  }, []);
+
+  return {
+    phase,
+    prediction,
+    observation,
+    reasoning,
+    setReasoning,
+    revealed,
+    reveal: () => setRevealed(true),
+    pendingNote,
+    request,
+    commit,
+    record,
+    explain: () => moveTo('explain'),
+    reset,
+  };
+};
+
+export type Prediction = ReturnType<typeof usePrediction>;
+
+export type PredictionPrompts = {
+  question: string;
+  options: PredictionOption[];
+  explainPrompt: string;
+  explanation: string;
+};
+
+export const PredictionCard = ({
+  prediction,
+  prompts,
+  tone = 'light',
+}: {
+  prediction: Prediction;
+  prompts: PredictionPrompts;
+  tone?: 'light' | 'dark';
+}) => {
+  const { phase, observation } = prediction;
+  const { question, options, explainPrompt, explanation } = prompts;
+  if (phase === 'idle') return null;
+  const isLight = tone === 'light';
+  const mutedText = isLight ? 'rgba(51, 65, 85, 0.85)' : 'rgba(226, 232, 240, 0.9)';
+  const labelFor = (id: string | null) => options.find((option) => option.id === id)?.label ?? '--';
+  const matched = observation !== null && observation.outcome === prediction.prediction;
+  const steps: PredictionPhase[] = ['predict', 'observe', 'explain'];
+
+  return (
+    <Card
+      elevation={0}
+      sx={{
+        borderRadius: 3,
+        bgcolor: isLight ? 'rgba(234, 179, 8, 0.1)' : 'rgba(234, 179, 8, 0.14)',
+        border: '1px solid rgba(234, 179, 8, 0.45)',
+        color: isLight ? undefined : '#e2e8f0',
+      }}
+    >
+      <CardContent>
+        <Stack direction="row" spacing={0.5}>
+          {steps.map((step) => (
+            <Chip
+              key={step}
+              label={step[0].toUpperCase() + step.slice(1)}
+              size="small"
+              sx={{
+                fontWeight: 700,
+                bgcolor: step === phase ? 'rgba(234, 179, 8, 0.85)' : 'rgba(148, 163, 184, 0.2)',
+                color: step === phase ? '#0f172a' : isLight ? 'inherit' : '#e2e8f0',
+              }}
+            />
+          ))}
+        </Stack>
+
+        {phase === 'predict' && (
+          <>
+            {prediction.pendingNote && (
+              <Typography variant="caption" sx={{ display: 'block', mt: 1.5, color: mutedText }}>
+                {prediction.pendingNote}
+              </Typography>
+            )}
+            <Typography variant="body2" sx={{ mt: 1, fontWeight: 700 }}>
+              {question}
+            </Typography>
+            <Stack spacing={1} sx={{ mt: 1.5 }}>
+              {options.map((option) => (
+                <Button
+                  key={option.id}
+                  variant="outlined"
+                  size="small"
+                  onClick={() => prediction.commit(option.id)}
+                  sx={{ fontWeight: 700, color: isLight ? undefined : '#e2e8f0' }}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </Stack>
+            <Button size="small" onClick={prediction.reset} sx={{ mt: 1, color: mutedText }}>
+              Cancel
+            </Button>
+          </>
+        )}
+
+        {phase !== 'predict' && (
+          <Box sx={{ mt: 1.5 }}>
+            <Typography variant="caption" sx={{ color: mutedText }}>
+              Your prediction
+            </Typography>
+            <Typography variant="body2" sx={{ fontWeight: 700 }}>
+              {labelFor(prediction.prediction)}
+            </Typography>
+            <Typography variant="caption" sx={{ display: 'block', mt: 1, color: mutedText }}>
+              Observed
+            </Typography>
+            {observation ? (
+              <>
+                {observation.rows.map((row) => (
+                  <Stack key={row.label} direction="row" justifyContent="space-between">
+                    <Typography variant="body2">{row.label}</Typography>
+                    <Typography variant="body2" sx={{ fontWeight: 700 }}>
+                      {row.value}
+                    </Typography>
+                  </Stack>
+                ))}
+                <Typography variant="body2" sx={{ mt: 0.5, fontWeight: 700 }}>
+                  {labelFor(observation.outcome)}
+                </Typography>
+                <Box
+                  sx={{
+                    mt: 1,
+                    px: 1.5,
+                    py: 0.75,
+                    borderRadius: 2,
+                    bgcolor: matched ? 'rgba(22, 163, 74, 0.15)' : 'rgba(220, 38, 38, 0.12)',
+                    border: `1px solid ${matched ? 'rgba(22, 163, 74, 0.45)' : 'rgba(220, 38, 38, 0.4)'}`,
+                  }}
+                >
+                  <Typography variant="caption" sx={{ fontWeight: 700 }}>
+                    {matched ? 'Your prediction matched.' : 'The result differs from your prediction.'}
+                  </Typography>
+                </Box>
+              </>
+            ) : (
+              <Typography variant="body2" sx={{ color: mutedText }}>
+                Waiting for the simulation…
+              </Typography>
+            )}
+          </Box>
+        )}
+
+        {phase === 'observe' && observation && (
+          <Button variant="contained" size="small" onClick={prediction.explain} sx={{ mt: 1.5, fontWeight: 700 }}>
+            Explain
+          </Button>
+        )}
+
+        {phase === 'explain' && (
+          <>
+            <Typography variant="body2" sx={{ mt: 1.5, fontWeight: 700 }}>
+              {explainPrompt}
+            </Typography>
+            <TextField
+              size="small"
+              multiline
+              minRows={2}
+              value={prediction.reasoning}
+              onChange={(event) => prediction.setReasoning(event.target.value)}
+              disabled={prediction.revealed}
+              sx={{
+                mt: 1,
+                width: '100%',
+                bgcolor: isLight ? 'rgba(255, 255, 255, 0.9)' : 'rgba(248, 250, 252, 0.95)',
+                borderRadius: 1,
+              }}
+            />
+            {prediction.revealed && (
+              <Typography variant="caption" sx={{ display: 'block', mt: 1, color: mutedText, lineHeight: 1.6 }}>
+                {explanation}
+              </Typography>
+            )}
+            <Stack direction="row" spacing={1} sx={{ mt: 1.5 }}>
+              {!prediction.revealed ? (
+                <Button
+                  variant="contained"
+                  size="small"
+                  disabled={!prediction.reasoning.trim()}
+                  onClick={prediction.reveal}
+                  sx={{ fontWeight: 700 }}
+                >
+                  Compare with explanation
+                </Button>
+              ) : (
+                <Button variant="contained" size="small" onClick={prediction.reset} sx={{ fontWeight: 700 }}>
+                  Done
+                </Button>
+              )}
+            </Stack>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
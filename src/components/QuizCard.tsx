@@ -0,0 +1,264 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  FormControlLabel,
+  InputAdornment,
+  Radio,
+  RadioGroup,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+
+type QuizQuestionBase = { id: string; prompt: string; explanation: string };
+// A mistake matches within its own tolerance, or within 2% of its value when none is given.
+export type QuizMistake = { value: number; feedback: string; tolerance?: number };
+export type QuizChoice = { id: string; label: string; feedback?: string };
+export type QuizQuestion =
+  | (QuizQuestionBase & { kind: 'choice'; choices: QuizChoice[]; answer: string })
+  | (QuizQuestionBase & {
+      kind: 'numeric';
+      answer: number;
+      tolerance: number;
+      unit: string;
+      mistakes?: QuizMistake[];
+    })
+  | (QuizQuestionBase & { kind: 'arrow'; answer: string; hint: string; feedback: Record<string, string> });
+
+type QuizResult = { correct: boolean; feedback: string };
+type QuizScore = Record<string, boolean>;
+
+const GENERIC_FEEDBACK = 'Not quite. Look at the simulation again and try once more.';
+
+const readScore = (storageKey: string): QuizScore => {
+  try {
+    return JSON.parse(window.sessionStorage.getItem(storageKey) ?? '{}') as QuizScore;
+  } catch {
+    return {};
+  }
+};
+
+const gradeQuestion = (question: QuizQuestion, response: string): QuizResult => {
+  if (question.kind === 'numeric') {
+    const value = Number(response);
+    if (Math.abs(value - question.answer) <= question.tolerance) return { correct: true, feedback: '' };
+    const distance = (mistake: QuizMistake) => Math.abs(value - mistake.value);
+    const mistake = (question.mistakes ?? [])
+      .filter((candidate) => distance(candidate) <= (candidate.tolerance ?? Math.abs(candidate.value) * 0.02))
+      .sort((first, second) => distance(first) - distance(second))[0];
+    return { correct: false, feedback: mistake?.feedback ?? GENERIC_FEEDBACK };
+  }
+  if (response === question.answer) return { correct: true, feedback: '' };
+  if (question.kind === 'choice') {
+    const choice = question.choices.find((candidate) => candidate.id === response);
+    return { correct: false, feedback: choice?.feedback ?? GENERIC_FEEDBACK };
+  }
+  return { correct: false, feedback: question.feedback[response] ?? GENERIC_FEEDBACK };
+};
+
+// Only the first submission of each question counts towards the score, which lives in sessionStorage so that
+// switching tabs does not reset it.
+export const useQuiz = (setId: string, questions: QuizQuestion[]) => {
+  const storageKey = `quiz-score:${setId}`;
+  const [index, setIndex] = useState(0);
+  const [response, setResponse] = useState('');
+  const [result, setResult] = useState<QuizResult | null>(null);
+  const [score, setScore] = useState<QuizScore>(() => readScore(storageKey));
+
+  useEffect(() => {
+    window.sessionStorage.setItem(storageKey, JSON.stringify(score));
+  }, [score, storageKey]);
+
+  const question = questions[index];
+
+  const respond = (value: string) => {
+    setResult(null);
+    setResponse(value);
+  };
+
+  const submit = () => {
+    if (!response) return;
+    const graded = gradeQuestion(question, response);
+    setResult(graded);
+    setScore((prev) => (question.id in prev ? prev : { ...prev, [question.id]: graded.correct }));
+  };
+
+  const retry = () => {
+    setResult(null);
+    setResponse('');
+  };
+
+  const next = () => {
+    setIndex((prev) => (prev + 1) % questions.length);
+    retry();
+  };
+
+  const resetScore = () => {
+    setScore({});
+    setIndex(0);
+    retry();
+  };
+
+  const awaitingArrow = question.kind === 'arrow' && !result?.correct;
+  const pickArrow = useCallback(
+    (arrowId: string) => {
+      if (!awaitingArrow) return;
+      setResult(null);
+      setResponse(arrowId);
+    },
+    [awaitingArrow],
+  );
+
+  return {
+    question,
+    index,
+    total: questions.length,
+    response,
+    respond,
+    result,
+    submit,
+    retry,
+    next,
+    correctCount: Object.values(score).filter(Boolean).length,
+    answeredCount: Object.keys(score).length,
+    resetScore,
+    awaitingArrow,
+    pickArrow,
+  };
+};
+
+export type Quiz = ReturnType<typeof useQuiz>;
+
+export const QuizCard = ({ quiz, tone = 'light' }: { quiz: Quiz; tone?: 'light' | 'dark' }) => {
+  const { question, result } = quiz;
+  const isLight = tone === 'light';
+  const mutedText = isLight ? 'rgba(51, 65, 85, 0.85)' : 'rgba(226, 232, 240, 0.9)';
+
+  return (
+    <Card
+      elevation={0}
+      sx={{
+        borderRadius: 3,
+        bgcolor: isLight ? 'rgba(15, 23, 42, 0.04)' : 'rgba(15, 23, 42, 0.2)',
+        border: isLight ? '1px solid rgba(15, 23, 42, 0.08)' : '1px solid rgba(148, 163, 184, 0.35)',
+        color: isLight ? undefined : '#e2e8f0',
+      }}
+    >
+      <CardContent>
+        <Stack direction="row" justifyContent="space-between" alignItems="center">
+          <Typography
+            variant="overline"
+            sx={{ color: isLight ? 'rgba(100, 116, 139, 0.8)' : 'rgba(191, 219, 254, 0.8)' }}
+          >
+            Check question {quiz.index + 1}/{quiz.total}
+          </Typography>
+          <Chip
+            label={`Score ${quiz.correctCount}/${quiz.answeredCount}`}
+            size="small"
+            sx={{
+              fontWeight: 700,
+              bgcolor: isLight ? 'rgba(15, 23, 42, 0.06)' : 'rgba(148, 163, 184, 0.2)',
+              color: isLight ? 'inherit' : '#e2e8f0',
+            }}
+          />
+        </Stack>
+        <Typography variant="body2" sx={{ mt: 1, color: mutedText }}>
+          {question.prompt}
+        </Typography>
+
+        {question.kind === 'choice' && (
+          <RadioGroup value={quiz.response} onChange={(event) => quiz.respond(event.target.value)} sx={{ mt: 1 }}>
+            {question.choices.map((choice) => (
+              <FormControlLabel
+                key={choice.id}
+                value={choice.id}
+                disabled={result?.correct}
+                control={<Radio size="small" sx={{ color: isLight ? undefined : 'rgba(226, 232, 240, 0.7)' }} />}
+                label={<Typography variant="body2">{choice.label}</Typography>}
+              />
+            ))}
+          </RadioGroup>
+        )}
+        {question.kind === 'numeric' && (
+          <TextField
+            size="small"
+            type="number"
+            value={quiz.response}
+            onChange={(event) => quiz.respond(event.target.value)}
+            disabled={result?.correct}
+            InputProps={{ endAdornment: <InputAdornment position="end">{question.unit}</InputAdornment> }}
+            sx={{
+              mt: 1.5,
+              width: '100%',
+              bgcolor: isLight ? 'rgba(255, 255, 255, 0.9)' : 'rgba(248, 250, 252, 0.95)',
+              borderRadius: 1,
+            }}
+          />
+        )}
+        {question.kind === 'arrow' && (
+          <Stack direction="row" alignItems="center" spacing={1} sx={{ mt: 1.5 }}>
+            <Typography variant="caption" sx={{ color: mutedText }}>
+              {quiz.response ? 'Your pick:' : question.hint}
+            </Typography>
+            {quiz.response && <Chip label={quiz.response} size="small" color="secondary" sx={{ fontWeight: 700 }} />}
+          </Stack>
+        )}
+
+        {result && (
+          <Box
+            sx={{
+              mt: 1.5,
+              px: 1.5,
+              py: 1,
+              borderRadius: 2,
+              bgcolor: result.correct ? 'rgba(22, 163, 74, 0.15)' : 'rgba(220, 38, 38, 0.12)',
+              border: `1px solid ${result.correct ? 'rgba(22, 163, 74, 0.45)' : 'rgba(220, 38, 38, 0.4)'}`,
+            }}
+          >
+            <Typography variant="body2" sx={{ fontWeight: 800 }}>
+              {result.correct ? 'Correct!' : 'Try again'}
+            </Typography>
+            <Typography variant="caption" sx={{ display: 'block', mt: 0.5 }}>
+              {result.correct ? question.explanation : result.feedback}
+            </Typography>
+          </Box>
+        )}
+
+        <Stack direction="row" spacing={1} sx={{ mt: 1.5 }}>
+          {!result && (
+            <Button
+              variant="contained"
+              size="small"
+              disabled={!quiz.response}
+              onClick={quiz.submit}
+              sx={{ fontWeight: 700 }}
+            >
+              Submit
+            </Button>
+          )}
+          {result && !result.correct && (
+            <Button variant="outlined" size="small" onClick={quiz.retry} sx={{ fontWeight: 700 }}>
+              Try again
+            </Button>
+          )}
+          {result?.correct && (
+            <Button variant="contained" size="small" onClick={quiz.next} sx={{ fontWeight: 700 }}>
+              Next question
+            </Button>
+          )}
+          <Button
+            size="small"
+            onClick={quiz.resetScore}
+            sx={{ ml: 'auto', fontWeight: 700, color: isLight ? undefined : 'rgba(191, 219, 254, 0.9)' }}
+          >
+            Reset score
+          </Button>
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,608 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Box, Button, Card, CardContent, Chip, Divider, IconButton, Paper, Stack, Typography } from '@mui/material';
+import { AutorenewRounded, RocketLaunchRounded } from '@mui/icons-material';
+import { LineChart } from '@mui/x-charts/LineChart';
+import {
+  ControlSlider,
+  drawScaleLegend,
+  drawVector,
+  ForceCard,
+  SimClockControls,
+  SimulationDefinition,
+  useCachedLayers,
+  useElementSize,
+  useRenderLoop,
+  useSimulationClock,
+} from './simShared';
+
+type Telemetry = {
+  t: number;
+  fuel: number;
+  mass: number;
+  thrust: number;
+  acceleration: number;
+  velocity: number;
+  altitude: number;
+};
+type Particle = { x: number; y: number; vx: number; vy: number; life: number };
+
+const DRY_MASS_KG = 500;
+const GRAVITY_ACCEL = 9.8;
+const NEWTONS_PER_PX = 1250;
+const PX_PER_METER = 2;
+const PLUME_PX_PER_MPS = 0.12;
+const SAMPLE_INTERVAL = 0.1;
+const MAX_PARTICLES = 260;
+
+// Thrust is the rate at which the rocket throws momentum at the gas: F = ṁ·v_e. The gas pushes back on the rocket
+// with the same force. Until thrust beats the weight the pad carries the difference, so the rocket stays put.
+const calculateFlight = (fuel: number, exhaustSpeed: number, massFlowRate: number) => {
+  const mass = DRY_MASS_KG + fuel;
+  const thrust = fuel > 0 ? exhaustSpeed * massFlowRate : 0;
+  const weight = mass * GRAVITY_ACCEL;
+  return { mass, thrust, weight, acceleration: (thrust - weight) / mass };
+};
+
+const createTelemetry = (fuel: number): Telemetry => ({
+  t: 0,
+  fuel,
+  mass: DRY_MASS_KG + fuel,
+  thrust: 0,
+  acceleration: 0,
+  velocity: 0,
+  altitude: 0,
+});
+
+const getLayout = (width: number, height: number) => {
+  const scale = height / 600;
+  const padY = height * 0.8;
+  return {
+    scale,
+    padY,
+    rocketX: width * 0.5,
+    rocketWidth: 44 * scale,
+    rocketHeight: 150 * scale,
+    cruiseY: height * 0.52,
+  };
+};
+
+const FlightChart = ({ samples }: { samples: Telemetry[] }) => (
+  <Box
+    sx={{
+      height: 220,
+      flexShrink: 0,
+      borderTop: '1px solid rgba(15, 23, 42, 0.1)',
+      bgcolor: 'rgba(255, 255, 255, 0.92)',
+      position: 'relative',
+    }}
+  >
+    <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ px: 3, pt: 1.5 }}>
+      <Typography variant="subtitle2" sx={{ fontWeight: 800 }}>
+        Rocket mass and acceleration during the burn
+      </Typography>
+      <Typography variant="caption" sx={{ color: 'rgba(51, 65, 85, 0.85)' }}>
+        Same thrust, less mass → more acceleration
+      </Typography>
+    </Stack>
+    <LineChart
+      height={180}
+      skipAnimation
+      margin={{ left: 16, right: 16, top: 8, bottom: 8 }}
+      xAxis={[
+        { data: samples.map((sample) => sample.t), label: 'Time (s)', valueFormatter: (t: number) => t.toFixed(1) },
+      ]}
+      yAxis={[
+        { id: 'mass', label: 'Mass (kg)' },
+        { id: 'acceleration', label: 'Acceleration (m/s²)', position: 'right' },
+      ]}
+      series={[
+        {
+          data: samples.map((sample) => sample.mass),
+          label: 'Rocket mass',
+          color: '#64748b',
+          yAxisId: 'mass',
+          showMark: false,
+        },
+        {
+          data: samples.map((sample) => sample.acceleration),
+          label: 'Acceleration',
+          color: '#16a34a',
+          yAxisId: 'acceleration',
+          showMark: false,
+        },
+      ]}
+    />
+    {samples.length === 0 && (
+      <Typography
+        variant="caption"
+        sx={{
+          position: 'absolute',
+          top: '50%',
+          left: '50%',
+          transform: 'translate(-50%, -50%)',
+          fontWeight: 700,
+          color: 'rgba(51, 65, 85, 0.7)',
+        }}
+      >
+        Launch the rocket to record its mass and acceleration
+      </Typography>
+    )}
+  </Box>
+);
+
+export const RocketSimulation = ({ learningMode }: { learningMode: boolean }) => {
+  const [exhaustSpeed, setExhaustSpeed] = useState(2500);
+  const [massFlowRate, setMassFlowRate] = useState(20);
+  const [fuelMass, setFuelMass] = useState(1500);
+  const [isLaunched, setIsLaunched] = useState(false);
+  const [telemetry, setTelemetry] = useState<Telemetry>(() => createTelemetry(1500));
+  const [history, setHistory] = useState<Telemetry[]>([]);
+
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const size = useElementSize(containerRef);
+  const clock = useSimulationClock();
+  const advanceClock = clock.advance;
+  const drawLayer = useCachedLayers();
+  const stateRef = useRef({
+    launched: false,
+    flight: createTelemetry(1500),
+    nextSample: 0,
+    particles: [] as Particle[],
+  });
+
+  const reset = useCallback(() => {
+    stateRef.current = { launched: false, flight: createTelemetry(fuelMass), nextSample: 0, particles: [] };
+    setIsLaunched(false);
+    setTelemetry(createTelemetry(fuelMass));
+    setHistory([]);
+  }, [fuelMass]);
+
+  useEffect(() => {
+    reset();
+  }, [reset]);
+
+  const tick = useCallback(
+    (dt: number) => {
+      const state = stateRef.current;
+      if (!state.launched) return;
+      const flight = state.flight;
+      const { mass, thrust: fullThrust, weight } = calculateFlight(flight.fuel, exhaustSpeed, massFlowRate);
+      // The last tick of the burn runs the engine only for the fuel that is left, so it gets that share of the thrust.
+      const burned = Math.min(flight.fuel, massFlowRate * dt);
+      const thrust = fullThrust * (burned / (massFlowRate * dt));
+      const acceleration = (thrust - weight) / mass;
+      const grounded = flight.altitude <= 0 && acceleration <= 0 && flight.velocity <= 0;
+      const netAcceleration = grounded ? 0 : acceleration;
+
+      flight.t += dt;
+      flight.fuel -= burned;
+      flight.velocity += netAcceleration * dt;
+      flight.altitude += flight.velocity * dt;
+      if (flight.altitude < 0) {
+        flight.altitude = 0;
+        flight.velocity = 0;
+      }
+      flight.mass = mass;
+      flight.thrust = thrust;
+      flight.acceleration = netAcceleration;
+
+      if (thrust > 0) {
+        const spawn = Math.ceil(massFlowRate / 10);
+        for (let i = 0; i < spawn; i += 1) {
+          state.particles.push({
+            x: (Math.random() - 0.5) * 10,
+            y: 0,
+            vx: (Math.random() - 0.5) * 40,
+            vy: exhaustSpeed * PLUME_PX_PER_MPS * (0.8 + Math.random() * 0.4),
+            life: 1,
+          });
+        }
+      }
+      state.particles = state.particles
+        .map((particle) => ({
+          ...particle,
+          x: particle.x + particle.vx * dt,
+          y: particle.y + particle.vy * dt,
+          life: particle.life - dt * 1.6,
+        }))
+        .filter((particle) => particle.life > 0)
+        .slice(-MAX_PARTICLES);
+
+      if (flight.t >= state.nextSample) {
+        state.nextSample = flight.t + SAMPLE_INTERVAL;
+        const sample = { ...flight };
+        setTelemetry(sample);
+        if (flight.fuel > 0 || thrust > 0) setHistory((prev) => [...prev, sample]);
+      }
+    },
+    [exhaustSpeed, massFlowRate],
+  );
+
+  const draw = useCallback(
+    (ctx: CanvasRenderingContext2D) => {
+      const { width, height } = size;
+      const { scale, padY, rocketX, rocketWidth, rocketHeight, cruiseY } = getLayout(width, height);
+      const state = stateRef.current;
+      const flight = state.flight;
+      const climb = flight.altitude * PX_PER_METER;
+      const rocketBaseY = Math.max(cruiseY, padY - climb);
+      const cameraOffset = Math.max(0, climb - (padY - cruiseY));
+
+      ctx.clearRect(0, 0, width, height);
+      const skyDepth = Math.min(1, flight.altitude / 20000);
+      const sky = ctx.createLinearGradient(0, 0, 0, height);
+      const fade = (low: number, high: number) => Math.round(low + (high - low) * skyDepth);
+      sky.addColorStop(0, `rgb(${fade(125, 15)}, ${fade(190, 20)}, ${fade(240, 40)})`);
+      sky.addColorStop(1, `rgb(${fade(224, 34)}, ${fade(242, 42)}, ${fade(254, 90)})`);
+      ctx.fillStyle = sky;
+      ctx.fillRect(0, 0, width, height);
+
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.35)';
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.75)';
+      ctx.font = '600 11px "Pretendard", sans-serif';
+      ctx.lineWidth = 1;
+      const markerSpacing = 50;
+      const firstMarker = Math.ceil(cameraOffset / PX_PER_METER / markerSpacing) * markerSpacing;
+      for (
+        let altitude = Math.max(markerSpacing, firstMarker);
+        padY + cameraOffset - altitude * PX_PER_METER >= 0;
+        altitude += markerSpacing
+      ) {
+        const y = padY + cameraOffset - altitude * PX_PER_METER;
+        ctx.beginPath();
+        ctx.moveTo(width - 70, y);
+        ctx.lineTo(width - 20, y);
+        ctx.stroke();
+        ctx.fillText(`${altitude} m`, width - 68, y - 4);
+      }
+
+      const groundY = padY + cameraOffset;
+      if (groundY < height) {
+        ctx.fillStyle = '#4d7c0f';
+        ctx.fillRect(0, groundY, width, height - groundY);
+        ctx.fillStyle = '#475569';
+        ctx.fillRect(rocketX - 70 * scale, groundY - 8 * scale, 140 * scale, 8 * scale);
+      }
+
+      state.particles.forEach((particle) => {
+        const red = Math.round(130 + 120 * particle.life);
+        const green = Math.round(60 + 160 * particle.life);
+        ctx.fillStyle = `rgba(${red}, ${green}, 60, ${particle.life * 0.8})`;
+        ctx.beginPath();
+        ctx.arc(
+          rocketX + particle.x * scale,
+          rocketBaseY + particle.y * scale,
+          (3 + (1 - particle.life) * 9) * scale,
+          0,
+          Math.PI * 2,
+        );
+        ctx.fill();
+      });
+
+      drawLayer(
+        ctx,
+        `rocket-${rocketWidth}x${rocketHeight}`,
+        {
+          x: rocketX - rocketWidth,
+          y: rocketBaseY - rocketHeight - 4,
+          width: rocketWidth * 2,
+          height: rocketHeight + 16 * scale,
+        },
+        (layer, originX, originY) => {
+          const cx = originX + rocketWidth;
+          const top = originY + 4;
+          const base = top + rocketHeight;
+          layer.fillStyle = '#e2e8f0';
+          layer.fillRect(cx - rocketWidth / 2, top + rocketHeight * 0.25, rocketWidth, rocketHeight * 0.75);
+          layer.fillStyle = '#ef4444';
+          layer.beginPath();
+          layer.moveTo(cx - rocketWidth / 2, top + rocketHeight * 0.25);
+          layer.quadraticCurveTo(cx - rocketWidth / 2, top, cx, top);
+          layer.quadraticCurveTo(cx + rocketWidth / 2, top, cx + rocketWidth / 2, top + rocketHeight * 0.25);
+          layer.closePath();
+          layer.fill();
+          layer.beginPath();
+          layer.moveTo(cx - rocketWidth / 2, base - rocketHeight * 0.22);
+          layer.lineTo(cx - rocketWidth, base);
+          layer.lineTo(cx - rocketWidth / 2, base);
+          layer.moveTo(cx + rocketWidth / 2, base - rocketHeight * 0.22);
+          layer.lineTo(cx + rocketWidth, base);
+          layer.lineTo(cx + rocketWidth / 2, base);
+          layer.fill();
+          layer.fillStyle = '#1e3a8a';
+          layer.beginPath();
+          layer.arc(cx, top + rocketHeight * 0.42, rocketWidth * 0.22, 0, Math.PI * 2);
+          layer.fill();
+          layer.fillStyle = '#334155';
+          layer.fillRect(cx - rocketWidth * 0.3, base, rocketWidth * 0.6, 10 * (rocketHeight / 150));
+        },
+      );
+
+      const { thrust, weight } = calculateFlight(flight.fuel, exhaustSpeed, massFlowRate);
+      const lengthFor = (force: number) => Math.max(12 * scale, (force / NEWTONS_PER_PX) * scale);
+      const nozzleY = rocketBaseY + 10 * scale;
+      if (state.launched && thrust > 0) {
+        const pairLength = lengthFor(thrust);
+        drawVector(
+          ctx,
+          rocketX - rocketWidth * 1.6,
+          rocketBaseY - rocketHeight * 0.3,
+          rocketX - rocketWidth * 1.6,
+          rocketBaseY - rocketHeight * 0.3 - pairLength,
+          {
+            color: '#3b82f6',
+            label: 'F_gas→rocket',
+            labelPosition: {
+              x: rocketX - rocketWidth * 1.6 - 110,
+              y: rocketBaseY - rocketHeight * 0.3 - pairLength / 2,
+            },
+          },
+        );
+        drawVector(ctx, rocketX + rocketWidth * 1.6, nozzleY, rocketX + rocketWidth * 1.6, nozzleY + pairLength, {
+          color: '#ef4444',
+          label: 'F_rocket→gas',
+          labelPosition: { x: rocketX + rocketWidth * 1.6 + 12, y: nozzleY + pairLength / 2 },
+        });
+      }
+      const weightStartY = rocketBaseY - rocketHeight * 0.5;
+      drawVector(ctx, rocketX, weightStartY, rocketX, weightStartY + lengthFor(weight), {
+        color: '#64748b',
+        label: 'W',
+        labelPosition: { x: rocketX + 10, y: weightStartY + lengthFor(weight) - 10 },
+        lineWidth: 3,
+        dashed: true,
+      });
+
+      drawScaleLegend(ctx, 24, height - 28, {
+        unitsPerPx: NEWTONS_PER_PX / scale,
+        unit: 'N',
+        color: groundY < height - 20 ? 'rgba(248, 250, 252, 0.9)' : 'rgba(51, 65, 85, 0.85)',
+      });
+    },
+    [drawLayer, exhaustSpeed, massFlowRate, size],
+  );
+
+  useRenderLoop(canvasRef, size, (ctx, now) => {
+    advanceClock(now, tick);
+    draw(ctx);
+  });
+
+  const handleLaunch = () => {
+    stateRef.current.launched = true;
+    setIsLaunched(true);
+  };
+
+  const current = calculateFlight(telemetry.fuel, exhaustSpeed, massFlowRate);
+  const burnTime = fuelMass / massFlowRate;
+
+  return (
+    <Box sx={{ display: 'flex', height: '100%', minHeight: 0, overflow: 'hidden' }}>
+      <Paper
+        elevation={0}
+        sx={{
+          width: 320,
+          height: '100%',
+          borderRight: '1px solid rgba(15, 23, 42, 0.08)',
+          p: 3,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 3,
+          overflow: 'auto',
+          background: 'linear-gradient(180deg, rgba(239, 246, 255, 0.95) 0%, rgba(219, 234, 254, 0.95) 100%)',
+        }}
+      >
+        <Box>
+          <Typography variant="h6" sx={{ mb: 1 }}>
+            Example 4 — Rocket propulsion
+          </Typography>
+          <Typography variant="body2" sx={{ color: 'rgba(51, 65, 85, 0.9)' }}>
+            A rocket has nothing to push against except its own exhaust. While the engine burns:
+          </Typography>
+          <Stack spacing={0.5} sx={{ mt: 1 }}>
+            <Typography variant="body2">• the rocket pushes the gas down with F_rocket→gas</Typography>
+            <Typography variant="body2">• the gas pushes the rocket up with F_gas→rocket</Typography>
+          </Stack>
+        </Box>
+        {learningMode && (
+          <Card
+            elevation={0}
+            sx={{
+              borderRadius: 3,
+              bgcolor: 'rgba(59, 130, 246, 0.1)',
+              border: '1px solid rgba(59, 130, 246, 0.35)',
+            }}
+          >
+            <CardContent>
+              <Typography variant="overline" sx={{ color: 'rgba(30, 64, 175, 0.9)' }}>
+                Guided mode
+              </Typography>
+              <Stack spacing={0.6} sx={{ mt: 1 }}>
+                <Typography variant="body2">1) Launch and compare the two thrust arrows.</Typography>
+                <Typography variant="body2">2) Watch the acceleration grow as fuel burns.</Typography>
+                <Typography variant="body2">3) Lower the mass-flow rate until the rocket stays on the pad.</Typography>
+              </Stack>
+            </CardContent>
+          </Card>
+        )}
+        <Stack spacing={2}>
+          <ControlSlider
+            label="Exhaust Speed"
+            value={exhaustSpeed}
+            onChange={setExhaustSpeed}
+            min={500}
+            max={4500}
+            step={100}
+            unit="m/s"
+          />
+          <ControlSlider
+            label="Mass-flow Rate"
+            value={massFlowRate}
+            onChange={setMassFlowRate}
+            min={5}
+            max={50}
+            unit="kg/s"
+          />
+          <ControlSlider
+            label="Fuel Mass"
+            value={fuelMass}
+            onChange={setFuelMass}
+            min={100}
+            max={3000}
+            step={50}
+            unit="kg"
+            disabled={isLaunched}
+          />
+        </Stack>
+        <Box
+          sx={{
+            borderRadius: 3,
+            bgcolor: 'rgba(255, 255, 255, 0.7)',
+            border: '1px solid rgba(15, 23, 42, 0.1)',
+            px: 2,
+            py: 1.5,
+          }}
+        >
+          <Typography variant="overline" sx={{ color: 'rgba(100, 116, 139, 0.8)' }}>
+            Thrust model
+          </Typography>
+          <Typography variant="caption" sx={{ display: 'block' }}>
+            Thrust F = ṁ·v_e = {(exhaustSpeed * massFlowRate).toLocaleString('en-US')} N
+          </Typography>
+          <Typography variant="caption" sx={{ display: 'block' }}>
+            Lift-off mass m₀ = {(DRY_MASS_KG + fuelMass).toLocaleString('en-US')} kg ({DRY_MASS_KG} kg dry)
+          </Typography>
+          <Typography variant="caption" sx={{ display: 'block' }}>
+            Burn time t = m_fuel / ṁ = {burnTime.toFixed(1)} s
+          </Typography>
+          <Typography variant="caption" sx={{ display: 'block' }}>
+            Acceleration a = (F − m·g) / m
+          </Typography>
+        </Box>
+        <Divider />
+        <Stack direction="row" spacing={1}>
+          <Button
+            variant="contained"
+            fullWidth
+            onClick={handleLaunch}
+            disabled={isLaunched}
+            startIcon={<RocketLaunchRounded />}
+            sx={{ py: 1.2, fontWeight: 700 }}
+          >
+            Launch
+          </Button>
+          <IconButton
+            onClick={reset}
+            sx={{
+              border: '1px solid rgba(15, 23, 42, 0.2)',
+              borderRadius: 2,
+            }}
+          >
+            <AutorenewRounded />
+          </IconButton>
+        </Stack>
+        <SimClockControls clock={clock} />
+        <Card
+          elevation={0}
+          sx={{
+            borderRadius: 3,
+            bgcolor: 'rgba(15, 23, 42, 0.06)',
+            border: '1px solid rgba(15, 23, 42, 0.1)',
+          }}
+        >
+          <CardContent>
+            <Typography variant="overline" sx={{ color: 'rgba(100, 116, 139, 0.8)' }}>
+              What to observe
+            </Typography>
+            <Typography variant="body2" sx={{ mt: 1, color: 'rgba(51, 65, 85, 0.85)' }}>
+              The thrust stays the same for the whole burn, yet the rocket speeds up faster and faster. The force did
+              not change; the mass it acts on did.
+            </Typography>
+          </CardContent>
+        </Card>
+        <Box sx={{ mt: 'auto', pt: 2 }}>
+          <Chip label="F_gas→rocket = −F_rocket→gas" color="primary" sx={{ fontWeight: 700 }} />
+        </Box>
+      </Paper>
+
+      <Box sx={{ flex: 1, minWidth: 0, height: '100%', display: 'flex', flexDirection: 'column' }}>
+        <Box
+          ref={containerRef}
+          sx={{
+            flex: 1,
+            minHeight: 0,
+            position: 'relative',
+            overflow: 'hidden',
+          }}
+        >
+          <Stack direction="row" spacing={2} sx={{ position: 'absolute', top: 24, left: 24, zIndex: 2 }}>
+            <ForceCard
+              title="Thrust on rocket"
+              value={isLaunched ? `${current.thrust.toLocaleString('en-US')} N` : '--'}
+              color="#3b82f6"
+              sub="F_gas→rocket"
+            />
+            <Typography variant="h4" sx={{ fontWeight: 800, color: 'rgba(51, 65, 85, 0.6)' }}>
+              =
+            </Typography>
+            <ForceCard
+              title="Force on gas"
+              value={isLaunched ? `${current.thrust.toLocaleString('en-US')} N` : '--'}
+              color="#ef4444"
+              sub="F_rocket→gas"
+            />
+          </Stack>
+          <Stack spacing={2} sx={{ position: 'absolute', top: 24, right: 24, zIndex: 2 }}>
+            <ForceCard
+              title="Rocket mass"
+              value={`${Math.round(telemetry.mass).toLocaleString('en-US')} kg`}
+              color="#334155"
+              sub={`fuel ${Math.round(telemetry.fuel)} kg`}
+            />
+            <ForceCard
+              title="Acceleration"
+              value={`${telemetry.acceleration.toFixed(1)} m/s²`}
+              color="#16a34a"
+              sub={`v = ${telemetry.velocity.toFixed(0)} m/s, h = ${telemetry.altitude.toFixed(0)} m`}
+            />
+          </Stack>
+
+          <canvas ref={canvasRef} />
+
+          {isLaunched && telemetry.fuel > 0 && current.thrust <= current.weight && (
+            <Paper
+              elevation={0}
+              sx={{
+                position: 'absolute',
+                bottom: 28,
+                left: '50%',
+                transform: 'translateX(-50%)',
+                px: 3,
+                py: 1.2,
+                borderRadius: 999,
+                bgcolor: 'rgba(255,255,255,0.85)',
+                border: '1px solid rgba(15, 23, 42, 0.08)',
+                boxShadow: '0 12px 24px rgba(15, 23, 42, 0.08)',
+              }}
+            >
+              <Typography variant="caption" sx={{ fontWeight: 700, color: 'rgba(51, 65, 85, 0.85)' }}>
+                Thrust is smaller than the weight, so the pad still holds the rocket up
+              </Typography>
+            </Paper>
+          )}
+        </Box>
+        <FlightChart samples={history} />
+      </Box>
+    </Box>
+  );
+};
+
+export const rocketDefinition: SimulationDefinition = {
+  path: '/example4',
+  label: 'Example 4: Rocket',
+  icon: <RocketLaunchRounded />,
+  Component: RocketSimulation,
+  keyConcept:
+    'The rocket pushes its exhaust gas down and the gas pushes the rocket up with the same force. The thrust stays constant while fuel burns, so the acceleration grows as the mass drops.',
+  chips: ['Action on the gas', 'Reaction on the rocket', 'F = ṁ·v_e'],
+};
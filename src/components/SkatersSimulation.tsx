@@ -0,0 +1,589 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Box, Button, Card, CardContent, Chip, Divider, IconButton, Paper, Stack, Typography } from '@mui/material';
+import { AutorenewRounded, IceSkatingRounded, PlayArrowRounded } from '@mui/icons-material';
+import { LineChart } from '@mui/x-charts/LineChart';
+import {
+  ControlSlider,
+  drawScaleLegend,
+  drawVector,
+  ForceCard,
+  SimClockControls,
+  SimulationDefinition,
+  useCachedLayers,
+  useElementSize,
+  useRenderLoop,
+  useSimulationClock,
+} from './simShared';
+
+type SkaterState = { x: number; velocity: number; acceleration: number };
+type MomentumSample = { t: number; momentumA: number; momentumB: number };
+
+const RINK_LENGTH_M = 24;
+const NEWTONS_PER_PX = 4;
+const PX_PER_MPS = 40;
+const SAMPLE_INTERVAL = 0.05;
+const START_GAP_M = 1.2;
+
+const createSkaters = () => ({
+  a: { x: -START_GAP_M / 2, velocity: 0, acceleration: 0 } as SkaterState,
+  b: { x: START_GAP_M / 2, velocity: 0, acceleration: 0 } as SkaterState,
+});
+
+// The push is one interaction, so both skaters feel the same F for the same Δt. Each gains F·Δt of momentum in
+// opposite directions: v = F·Δt / m, and the total stays at zero whatever the masses are.
+const calculatePush = (force: number, duration: number, massA: number, massB: number) => ({
+  impulse: force * duration,
+  accelerationA: force / massA,
+  accelerationB: force / massB,
+  velocityA: (force * duration) / massA,
+  velocityB: (force * duration) / massB,
+});
+
+const getLayout = (width: number, height: number) => {
+  const scale = height / 600;
+  const rinkLeft = 40;
+  const rinkRight = width - 40;
+  return {
+    scale,
+    rinkLeft,
+    rinkRight,
+    iceY: height * 0.62,
+    pxPerMeter: (rinkRight - rinkLeft) / RINK_LENGTH_M,
+    centerX: (rinkLeft + rinkRight) / 2,
+  };
+};
+
+const drawSkater = (
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  iceY: number,
+  mass: number,
+  scale: number,
+  color: string,
+  facing: 1 | -1,
+) => {
+  const size = (0.75 + mass / 160) * scale;
+  const hipY = iceY - 70 * size;
+  const shoulderY = iceY - 120 * size;
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.lineCap = 'round';
+  ctx.lineWidth = 10 * size;
+  ctx.beginPath();
+  ctx.moveTo(x - 12 * size, iceY - 6 * size);
+  ctx.lineTo(x, hipY);
+  ctx.lineTo(x + 12 * size, iceY - 6 * size);
+  ctx.moveTo(x, hipY);
+  ctx.lineTo(x, shoulderY);
+  ctx.moveTo(x, shoulderY + 8 * size);
+  ctx.lineTo(x + facing * 30 * size, shoulderY + 14 * size);
+  ctx.stroke();
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.arc(x, shoulderY - 18 * size, 14 * size, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.strokeStyle = '#334155';
+  ctx.lineWidth = 3 * scale;
+  ctx.beginPath();
+  ctx.moveTo(x - 24 * size, iceY - 2);
+  ctx.lineTo(x + 4 * size, iceY - 2);
+  ctx.moveTo(x - 4 * size, iceY - 2);
+  ctx.lineTo(x + 24 * size, iceY - 2);
+  ctx.stroke();
+  ctx.restore();
+  return { handX: x + facing * 30 * size, handY: shoulderY + 14 * size, headY: shoulderY - 32 * size };
+};
+
+const MomentumChart = ({ samples }: { samples: MomentumSample[] }) => (
+  <Box
+    sx={{
+      height: 220,
+      flexShrink: 0,
+      borderTop: '1px solid rgba(15, 23, 42, 0.1)',
+      bgcolor: 'rgba(255, 255, 255, 0.92)',
+      position: 'relative',
+    }}
+  >
+    <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ px: 3, pt: 1.5 }}>
+      <Typography variant="subtitle2" sx={{ fontWeight: 800 }}>
+        Momentum of each skater
+      </Typography>
+      <Typography variant="caption" sx={{ color: 'rgba(51, 65, 85, 0.85)' }}>
+        p_A + p_B stays at 0
+      </Typography>
+    </Stack>
+    <LineChart
+      height={180}
+      skipAnimation
+      margin={{ left: 16, right: 24, top: 8, bottom: 8 }}
+      xAxis={[
+        { data: samples.map((sample) => sample.t), label: 'Time (s)', valueFormatter: (t: number) => t.toFixed(2) },
+      ]}
+      yAxis={[{ label: 'Momentum (kg·m/s)' }]}
+      series={[
+        { data: samples.map((sample) => sample.momentumA), label: 'p_A', color: '#3b82f6', showMark: false },
+        { data: samples.map((sample) => sample.momentumB), label: 'p_B', color: '#ef4444', showMark: false },
+        {
+          data: samples.map((sample) => sample.momentumA + sample.momentumB),
+          label: 'p_A + p_B',
+          color: '#0f172a',
+          showMark: false,
+        },
+      ]}
+    />
+    {samples.length === 0 && (
+      <Typography
+        variant="caption"
+        sx={{
+          position: 'absolute',
+          top: '50%',
+          left: '50%',
+          transform: 'translate(-50%, -50%)',
+          fontWeight: 700,
+          color: 'rgba(51, 65, 85, 0.7)',
+        }}
+      >
+        Push off to record each skater’s momentum
+      </Typography>
+    )}
+  </Box>
+);
+
+export const SkatersSimulation = ({ learningMode }: { learningMode: boolean }) => {
+  const [massA, setMassA] = useState(60);
+  const [massB, setMassB] = useState(40);
+  const [pushForce, setPushForce] = useState(200);
+  const [pushDuration, setPushDuration] = useState(0.5);
+  const [phase, setPhase] = useState<'ready' | 'pushing' | 'gliding' | 'stopped'>('ready');
+  const [readout, setReadout] = useState(createSkaters);
+  const [history, setHistory] = useState<MomentumSample[]>([]);
+
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const size = useElementSize(containerRef);
+  const clock = useSimulationClock();
+  const advanceClock = clock.advance;
+  const drawLayer = useCachedLayers();
+  const stateRef = useRef({ phase: 'ready' as typeof phase, t: 0, nextSample: 0, skaters: createSkaters() });
+
+  const reset = useCallback(() => {
+    stateRef.current = { phase: 'ready', t: 0, nextSample: 0, skaters: createSkaters() };
+    setPhase('ready');
+    setReadout(createSkaters());
+    setHistory([]);
+  }, []);
+
+  useEffect(() => {
+    reset();
+  }, [massA, massB, reset]);
+
+  const tick = useCallback(
+    (dt: number) => {
+      const state = stateRef.current;
+      if (state.phase !== 'pushing' && state.phase !== 'gliding') return;
+      const { a, b } = state.skaters;
+      const pushDt = state.phase === 'pushing' ? Math.min(dt, pushDuration - state.t) : 0;
+      const force = state.phase === 'pushing' ? pushForce : 0;
+
+      a.acceleration = -force / massA;
+      b.acceleration = force / massB;
+      // The push ends part-way through a tick, so the constant-force segment and the coast after it are integrated
+      // separately; both are exact, which keeps the displacement readouts on the analytic values.
+      [a, b].forEach((skater) => {
+        skater.x += skater.velocity * pushDt + 0.5 * skater.acceleration * pushDt * pushDt;
+        skater.velocity += skater.acceleration * pushDt;
+        skater.x += skater.velocity * (dt - pushDt);
+      });
+      state.t += dt;
+
+      if (state.phase === 'pushing' && state.t >= pushDuration) {
+        state.phase = 'gliding';
+        a.acceleration = 0;
+        b.acceleration = 0;
+        setPhase('gliding');
+      }
+      if (a.x <= -RINK_LENGTH_M / 2 || b.x >= RINK_LENGTH_M / 2) {
+        a.x = Math.max(a.x, -RINK_LENGTH_M / 2);
+        b.x = Math.min(b.x, RINK_LENGTH_M / 2);
+        state.phase = 'stopped';
+        setPhase('stopped');
+      }
+
+      if (state.t >= state.nextSample || state.phase === 'stopped') {
+        state.nextSample = state.t + SAMPLE_INTERVAL;
+        setReadout({ a: { ...a }, b: { ...b } });
+        setHistory((prev) => [...prev, { t: state.t, momentumA: massA * a.velocity, momentumB: massB * b.velocity }]);
+      }
+    },
+    [massA, massB, pushDuration, pushForce],
+  );
+
+  const draw = useCallback(
+    (ctx: CanvasRenderingContext2D) => {
+      const { width, height } = size;
+      const { scale, rinkLeft, rinkRight, iceY, pxPerMeter, centerX } = getLayout(width, height);
+      const state = stateRef.current;
+      const { a, b } = state.skaters;
+
+      ctx.clearRect(0, 0, width, height);
+      drawLayer(ctx, `rink-${width}x${height}`, { x: 0, y: 0, width, height }, (layer) => {
+        const air = layer.createLinearGradient(0, 0, 0, iceY);
+        air.addColorStop(0, '#e0f2fe');
+        air.addColorStop(1, '#f8fafc');
+        layer.fillStyle = air;
+        layer.fillRect(0, 0, width, iceY);
+        const ice = layer.createLinearGradient(0, iceY, 0, height);
+        ice.addColorStop(0, '#bae6fd');
+        ice.addColorStop(1, '#e0f2fe');
+        layer.fillStyle = ice;
+        layer.fillRect(0, iceY, width, height - iceY);
+        layer.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+        layer.lineWidth = 2;
+        for (let i = 0; i < 6; i += 1) {
+          layer.beginPath();
+          layer.moveTo(rinkLeft + i * 160 * scale, iceY + (20 + i * 17) * scale);
+          layer.lineTo(rinkLeft + i * 160 * scale + 90 * scale, iceY + (28 + i * 17) * scale);
+          layer.stroke();
+        }
+        layer.fillStyle = '#1e3a8a';
+        layer.fillRect(rinkLeft - 12, iceY - 50 * scale, 12, 50 * scale + 8);
+        layer.fillRect(rinkRight, iceY - 50 * scale, 12, 50 * scale + 8);
+        layer.strokeStyle = 'rgba(220, 38, 38, 0.6)';
+        layer.lineWidth = 3;
+        layer.beginPath();
+        layer.moveTo(centerX, iceY);
+        layer.lineTo(centerX, height);
+        layer.stroke();
+        layer.fillStyle = 'rgba(51, 65, 85, 0.75)';
+        layer.font = '600 11px "Pretendard", sans-serif';
+        for (let meters = -RINK_LENGTH_M / 2; meters <= RINK_LENGTH_M / 2; meters += 4) {
+          const x = centerX + meters * pxPerMeter;
+          layer.fillRect(x - 1, iceY + 4, 2, 8);
+          layer.fillText(`${meters} m`, x - 12, iceY + 26);
+        }
+      });
+
+      const ax = centerX + a.x * pxPerMeter;
+      const bx = centerX + b.x * pxPerMeter;
+      const skaterA = drawSkater(ctx, ax, iceY, massA, scale, '#2563eb', 1);
+      const skaterB = drawSkater(ctx, bx, iceY, massB, scale, '#dc2626', -1);
+      ctx.fillStyle = 'rgba(15, 23, 42, 0.85)';
+      ctx.font = 'bold 13px "Pretendard", sans-serif';
+      ctx.fillText(`A · ${massA} kg`, ax - 28, skaterA.headY - 10);
+      ctx.fillText(`B · ${massB} kg`, bx - 28, skaterB.headY - 10);
+
+      if (state.phase === 'pushing') {
+        const length = Math.max(12 * scale, (pushForce / NEWTONS_PER_PX) * scale);
+        const forceY = skaterA.handY - 40 * scale;
+        drawVector(ctx, ax, forceY, ax - length, forceY, {
+          color: '#3b82f6',
+          label: 'F_B→A',
+          labelPosition: { x: ax - length / 2 - 20, y: forceY - 14 },
+        });
+        drawVector(ctx, bx, forceY, bx + length, forceY, {
+          color: '#ef4444',
+          label: 'F_A→B',
+          labelPosition: { x: bx + length / 2 - 20, y: forceY - 14 },
+        });
+      }
+      const velocityY = iceY + 56 * scale;
+      [
+        { x: ax, velocity: a.velocity, color: '#3b82f6', label: 'v_A' },
+        { x: bx, velocity: b.velocity, color: '#ef4444', label: 'v_B' },
+      ].forEach(({ x, velocity, color, label }) => {
+        if (Math.abs(velocity) < 1e-3) return;
+        const tipX = x + velocity * PX_PER_MPS * scale;
+        drawVector(ctx, x, velocityY, tipX, velocityY, {
+          color,
+          label,
+          labelPosition: { x: (x + tipX) / 2 - 10, y: velocityY + 24 },
+          lineWidth: 3,
+          dashed: true,
+        });
+      });
+
+      drawScaleLegend(ctx, width - 220, 36, {
+        unitsPerPx: NEWTONS_PER_PX / scale,
+        unit: 'N',
+        color: 'rgba(51, 65, 85, 0.85)',
+      });
+    },
+    [drawLayer, massA, massB, pushForce, size],
+  );
+
+  useRenderLoop(canvasRef, size, (ctx, now) => {
+    advanceClock(now, tick);
+    draw(ctx);
+  });
+
+  const handlePush = () => {
+    reset();
+    stateRef.current.phase = 'pushing';
+    setPhase('pushing');
+  };
+
+  const push = calculatePush(pushForce, pushDuration, massA, massB);
+  const isPushing = phase === 'pushing';
+  const momentumA = massA * readout.a.velocity;
+  const momentumB = massB * readout.b.velocity;
+  // Signed vector sum; only a rounded −0.0 is normalised so the readout never shows a stray minus sign.
+  const totalMomentum = Number((momentumA + momentumB).toFixed(1));
+  const totalMomentumText = (totalMomentum === 0 ? 0 : totalMomentum).toFixed(1);
+
+  return (
+    <Box sx={{ display: 'flex', height: '100%', minHeight: 0, overflow: 'hidden' }}>
+      <Paper
+        elevation={0}
+        sx={{
+          width: 320,
+          height: '100%',
+          borderRight: '1px solid rgba(15, 23, 42, 0.08)',
+          p: 3,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 3,
+          overflow: 'auto',
+          background: 'linear-gradient(180deg, rgba(236, 254, 255, 0.95) 0%, rgba(207, 250, 254, 0.95) 100%)',
+        }}
+      >
+        <Box>
+          <Typography variant="h6" sx={{ mb: 1 }}>
+            Example 5 — Two skaters push off each other
+          </Typography>
+          <Typography variant="body2" sx={{ color: 'rgba(51, 65, 85, 0.9)' }}>
+            Two skaters stand still on frictionless ice and push apart. During the push:
+          </Typography>
+          <Stack spacing={0.5} sx={{ mt: 1 }}>
+            <Typography variant="body2">• skater A pushes skater B with F_A→B</Typography>
+            <Typography variant="body2">• skater B pushes skater A with F_B→A</Typography>
+          </Stack>
+        </Box>
+        {learningMode && (
+          <Card
+            elevation={0}
+            sx={{
+              borderRadius: 3,
+              bgcolor: 'rgba(59, 130, 246, 0.1)',
+              border: '1px solid rgba(59, 130, 246, 0.35)',
+            }}
+          >
+            <CardContent>
+              <Typography variant="overline" sx={{ color: 'rgba(30, 64, 175, 0.9)' }}>
+                Guided mode
+              </Typography>
+              <Stack spacing={0.6} sx={{ mt: 1 }}>
+                <Typography variant="body2">1) Give the skaters different masses.</Typography>
+                <Typography variant="body2">2) Push off and compare the force arrows.</Typography>
+                <Typography variant="body2">3) Compare the speeds, then the total momentum.</Typography>
+              </Stack>
+            </CardContent>
+          </Card>
+        )}
+        <Stack spacing={2}>
+          <ControlSlider
+            label="Skater A Mass"
+            value={massA}
+            onChange={setMassA}
+            min={20}
+            max={120}
+            unit="kg"
+            disabled={isPushing}
+          />
+          <ControlSlider
+            label="Skater B Mass"
+            value={massB}
+            onChange={setMassB}
+            min={20}
+            max={120}
+            unit="kg"
+            disabled={isPushing}
+          />
+          <ControlSlider
+            label="Push Force"
+            value={pushForce}
+            onChange={setPushForce}
+            min={50}
+            max={600}
+            step={10}
+            unit="N"
+            disabled={isPushing}
+          />
+          <ControlSlider
+            label="Push Duration"
+            value={pushDuration}
+            onChange={setPushDuration}
+            min={0.1}
+            max={1.5}
+            step={0.1}
+            unit="s"
+            formatValue={(value) => value.toFixed(1)}
+            disabled={isPushing}
+          />
+        </Stack>
+        <Box
+          sx={{
+            borderRadius: 3,
+            bgcolor: 'rgba(255, 255, 255, 0.7)',
+            border: '1px solid rgba(15, 23, 42, 0.1)',
+            px: 2,
+            py: 1.5,
+          }}
+        >
+          <Typography variant="overline" sx={{ color: 'rgba(100, 116, 139, 0.8)' }}>
+            Push model
+          </Typography>
+          <Typography variant="caption" sx={{ display: 'block' }}>
+            Impulse J = F·Δt = {push.impulse.toFixed(1)} N·s on each skater
+          </Typography>
+          <Typography variant="caption" sx={{ display: 'block' }}>
+            a_A = F / m_A = {push.accelerationA.toFixed(2)} m/s², a_B = {push.accelerationB.toFixed(2)} m/s²
+          </Typography>
+          <Typography variant="caption" sx={{ display: 'block' }}>
+            v_A = J / m_A = {push.velocityA.toFixed(2)} m/s, v_B = {push.velocityB.toFixed(2)} m/s
+          </Typography>
+        </Box>
+        <Divider />
+        <Stack direction="row" spacing={1}>
+          <Button
+            variant="contained"
+            fullWidth
+            onClick={handlePush}
+            disabled={isPushing}
+            startIcon={<PlayArrowRounded />}
+            sx={{ py: 1.2, fontWeight: 700 }}
+          >
+            Push off
+          </Button>
+          <IconButton
+            onClick={reset}
+            disabled={isPushing}
+            sx={{
+              border: '1px solid rgba(15, 23, 42, 0.2)',
+              borderRadius: 2,
+            }}
+          >
+            <AutorenewRounded />
+          </IconButton>
+        </Stack>
+        <SimClockControls clock={clock} />
+        <Card
+          elevation={0}
+          sx={{
+            borderRadius: 3,
+            bgcolor: 'rgba(15, 23, 42, 0.06)',
+            border: '1px solid rgba(15, 23, 42, 0.1)',
+          }}
+        >
+          <CardContent>
+            <Typography variant="overline" sx={{ color: 'rgba(100, 116, 139, 0.8)' }}>
+              What to observe
+            </Typography>
+            <Typography variant="body2" sx={{ mt: 1, color: 'rgba(51, 65, 85, 0.85)' }}>
+              The force arrows always match, but the lighter skater moves away faster. Like the Earth and the Moon,
+              equal forces give unequal accelerations when the masses differ.
+            </Typography>
+          </CardContent>
+        </Card>
+        <Box sx={{ mt: 'auto', pt: 2 }}>
+          <Chip label="F_A→B = −F_B→A, p_A + p_B = 0" color="primary" sx={{ fontWeight: 700 }} />
+        </Box>
+      </Paper>
+
+      <Box sx={{ flex: 1, minWidth: 0, height: '100%', display: 'flex', flexDirection: 'column' }}>
+        <Box
+          ref={containerRef}
+          sx={{
+            flex: 1,
+            minHeight: 0,
+            position: 'relative',
+            overflow: 'hidden',
+          }}
+        >
+          <Stack direction="row" spacing={2} sx={{ position: 'absolute', top: 24, left: 24, zIndex: 2 }}>
+            <ForceCard
+              title="Force on skater B"
+              value={isPushing ? `${pushForce} N` : '--'}
+              color="#ef4444"
+              sub={`F_A→B, a_B = ${isPushing ? push.accelerationB.toFixed(2) : '0.00'} m/s²`}
+            />
+            <Typography variant="h4" sx={{ fontWeight: 800, color: 'rgba(51, 65, 85, 0.6)' }}>
+              =
+            </Typography>
+            <ForceCard
+              title="Force on skater A"
+              value={isPushing ? `${pushForce} N` : '--'}
+              color="#3b82f6"
+              sub={`F_B→A, a_A = ${isPushing ? push.accelerationA.toFixed(2) : '0.00'} m/s²`}
+            />
+          </Stack>
+
+          <Paper
+            elevation={0}
+            sx={{
+              position: 'absolute',
+              top: 24,
+              right: 24,
+              px: 2.5,
+              py: 2,
+              borderRadius: 2,
+              bgcolor: 'rgba(255,255,255,0.92)',
+              border: '1px solid rgba(15, 23, 42, 0.1)',
+              boxShadow: '0 16px 30px rgba(15, 23, 42, 0.12)',
+              minWidth: 220,
+            }}
+          >
+            <Typography variant="subtitle2" sx={{ fontWeight: 800, mb: 1 }}>
+              Momentum check
+            </Typography>
+            <Stack spacing={0.5}>
+              <Typography variant="caption" sx={{ color: '#2563eb', fontWeight: 700 }}>
+                p_A = {momentumA.toFixed(1)} kg·m/s (v_A = {readout.a.velocity.toFixed(2)} m/s)
+              </Typography>
+              <Typography variant="caption" sx={{ color: '#dc2626', fontWeight: 700 }}>
+                p_B = {momentumB.toFixed(1)} kg·m/s (v_B = {readout.b.velocity.toFixed(2)} m/s)
+              </Typography>
+              <Typography variant="caption" sx={{ fontWeight: 800 }}>
+                p_A + p_B = {totalMomentumText} kg·m/s
+              </Typography>
+            </Stack>
+          </Paper>
+
+          <canvas ref={canvasRef} />
+
+          {phase === 'stopped' && (
+            <Paper
+              elevation={0}
+              sx={{
+                position: 'absolute',
+                bottom: 28,
+                left: '50%',
+                transform: 'translateX(-50%)',
+                px: 3,
+                py: 1.2,
+                borderRadius: 999,
+                bgcolor: 'rgba(255,255,255,0.85)',
+                border: '1px solid rgba(15, 23, 42, 0.08)',
+                boxShadow: '0 12px 24px rgba(15, 23, 42, 0.08)',
+              }}
+            >
+              <Typography variant="caption" sx={{ fontWeight: 700, color: 'rgba(51, 65, 85, 0.85)' }}>
+                A skater reached the boards. Press reset to try again
+              </Typography>
+            </Paper>
+          )}
+        </Box>
+        <MomentumChart samples={history} />
+      </Box>
+    </Box>
+  );
+};
+
+export const skatersDefinition: SimulationDefinition = {
+  path: '/example5',
+  label: 'Example 5: Skaters',
+  icon: <IceSkatingRounded />,
+  Component: SkatersSimulation,
+  keyConcept:
+    'When two skaters push apart, each feels the same force for the same time. The lighter skater moves off faster, but the two momenta stay equal and opposite.',
+  chips: ['Equal force', 'Unequal acceleration', 'Total p = 0'],
+};
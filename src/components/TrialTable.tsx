@@ -0,0 +1,160 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Box, Button, Dialog, DialogActions, DialogContent, DialogTitle, Stack, Typography } from '@mui/material';
+import { DeleteRounded } from '@mui/icons-material';
+import { DataGrid, GridActionsCellItem, GridColDef, useGridApiRef } from '@mui/x-data-grid';
+
+export type TrialValues = Record<string, number | string>;
+export type TrialRow = TrialValues & { id: number; note: string };
+export type TrialColumn = {
+  field: string;
+  headerName: string;
+  type?: 'number' | 'string';
+  format?: (value: number) => string;
+};
+
+const readRows = (storageKey: string): TrialRow[] => {
+  try {
+    return JSON.parse(window.sessionStorage.getItem(storageKey) ?? '[]') as TrialRow[];
+  } catch {
+    return [];
+  }
+};
+
+const formatTrialValue = (value: number) => {
+  const magnitude = Math.abs(value);
+  if (magnitude !== 0 && (magnitude >= 1e5 || magnitude < 1e-2)) return value.toExponential(3);
+  return Number(value.toFixed(2)).toString();
+};
+
+// Rows live in sessionStorage, like quiz scores, so a tab switch does not wipe the notebook.
+export const useTrialLog = (logId: string) => {
+  const storageKey = `trial-log:${logId}`;
+  const [rows, setRows] = useState<TrialRow[]>(() => readRows(storageKey));
+
+  useEffect(() => {
+    window.sessionStorage.setItem(storageKey, JSON.stringify(rows));
+  }, [rows, storageKey]);
+
+  const add = useCallback((values: TrialValues) => {
+    setRows((prev) => [...prev, { ...values, id: (prev.length ? prev[prev.length - 1].id : 0) + 1, note: '' }]);
+  }, []);
+
+  const update = useCallback((row: TrialRow) => {
+    setRows((prev) => prev.map((candidate) => (candidate.id === row.id ? row : candidate)));
+    return row;
+  }, []);
+
+  const remove = useCallback((id: number) => setRows((prev) => prev.filter((row) => row.id !== id)), []);
+
+  return { rows, add, update, remove, clear: () => setRows([]) };
+};
+
+export type TrialLog = ReturnType<typeof useTrialLog>;
+
+type TrialTableProps = {
+  log: TrialLog;
+  columns: TrialColumn[];
+  title: string;
+  fileName: string;
+  onRecord?: () => void;
+  tone?: 'light' | 'dark';
+};
+
+export const TrialTable = ({ log, columns, title, fileName, onRecord, tone = 'light' }: TrialTableProps) => {
+  const [open, setOpen] = useState(false);
+  const apiRef = useGridApiRef();
+  const isLight = tone === 'light';
+  const { remove } = log;
+
+  const gridColumns = useMemo<GridColDef<TrialRow>[]>(
+    () => [
+      { field: 'id', headerName: 'Trial', width: 70 },
+      ...columns.map((column): GridColDef<TrialRow> => ({
+        field: column.field,
+        headerName: column.headerName,
+        type: column.type ?? 'number',
+        flex: 1,
+        minWidth: 90,
+        valueFormatter: ({ value }) =>
+          typeof value === 'number' ? (column.format ?? formatTrialValue)(value) : String(value ?? ''),
+      })),
+      { field: 'note', headerName: 'Note', flex: 1.5, minWidth: 160, editable: true },
+      {
+        field: 'actions',
+        type: 'actions',
+        width: 56,
+        getActions: ({ id }) => [
+          <GridActionsCellItem
+            key="delete"
+            icon={<DeleteRounded />}
+            label="Delete"
+            onClick={() => remove(Number(id))}
+          />,
+        ],
+      },
+    ],
+    [columns, remove],
+  );
+
+  return (
+    <Box>
+      <Typography variant="overline" sx={{ color: isLight ? 'rgba(100, 116, 139, 0.8)' : 'rgba(148, 163, 184, 0.9)' }}>
+        Lab notebook
+      </Typography>
+      <Typography variant="caption" sx={{ display: 'block' }}>
+        {log.rows.length === 1 ? '1 trial recorded' : `${log.rows.length} trials recorded`}
+      </Typography>
+      <Stack direction="row" spacing={1} sx={{ mt: 1 }}>
+        {onRecord && (
+          <Button variant="contained" size="small" onClick={onRecord} sx={{ fontWeight: 700 }}>
+            Record trial
+          </Button>
+        )}
+        <Button
+          variant="outlined"
+          size="small"
+          onClick={() => setOpen(true)}
+          sx={{
+            fontWeight: 700,
+            color: isLight ? undefined : '#e2e8f0',
+            borderColor: isLight ? undefined : 'rgba(226, 232, 240, 0.5)',
+          }}
+        >
+          Open table
+        </Button>
+      </Stack>
+      <Dialog open={open} onClose={() => setOpen(false)} maxWidth="md" fullWidth>
+        <DialogTitle>{title}</DialogTitle>
+        <DialogContent>
+          <DataGrid
+            apiRef={apiRef}
+            rows={log.rows}
+            columns={gridColumns}
+            processRowUpdate={log.update}
+            autoHeight
+            density="compact"
+            disableRowSelectionOnClick
+            hideFooter
+            localeText={{ noRowsLabel: 'No trials yet' }}
+          />
+          <Typography variant="caption" sx={{ display: 'block', mt: 1, color: 'rgba(100, 116, 139, 0.9)' }}>
+            Double-click a note to annotate a trial.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button color="error" disabled={!log.rows.length} onClick={log.clear}>
+            Clear all
+          </Button>
+          <Button
+            variant="contained"
+            disabled={!log.rows.length}
+            onClick={() => apiRef.current.exportDataAsCsv({ fileName })}
+          >
+            Export CSV
+          </Button>
+          <Button onClick={() => setOpen(false)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
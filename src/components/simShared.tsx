@@ -1,5 +1,28 @@
-import React, { useLayoutEffect, useState } from 'react';
-import { Box, Card, CardContent, Chip, Slider, Stack, Typography } from '@mui/material';
+import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  IconButton,
+  Slider,
+  Stack,
+  Switch,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  DownloadRounded,
+  FiberManualRecordRounded,
+  PauseRounded,
+  PlayArrowRounded,
+  SkipNextRounded,
+  StopRounded,
+} from '@mui/icons-material';
+
+export const SIM_TIMESTEP = 1 / 60;
+const MAX_FRAME_TIME = 0.25;
 
 export const useElementSize = <T extends HTMLElement>(ref: React.RefObject<T>) => {
   const [size, setSize] = useState({ width: 960, height: 600 });
@@ -24,6 +47,249 @@ export const useElementSize = <T extends HTMLElement>(ref: React.RefObject<T>) =
   return size;
 };
 
+const SUPERSCRIPT_DIGITS: Record<string, string> = {
+  '-': '⁻',
+  '0': '⁰',
+  '1': '¹',
+  '2': '²',
+  '3': '³',
+  '4': '⁴',
+  '5': '⁵',
+  '6': '⁶',
+  '7': '⁷',
+  '8': '⁸',
+  '9': '⁹',
+};
+
+// One requestAnimationFrame loop for the component's lifetime. `frame` is read through a ref each time, so new
+// parameters (and the new draw/tick closures they produce) never tear the loop down.
+export const useRenderLoop = (
+  canvasRef: React.RefObject<HTMLCanvasElement>,
+  size: { width: number; height: number },
+  frame: (ctx: CanvasRenderingContext2D, now: number) => void,
+) => {
+  const frameRef = useRef(frame);
+  frameRef.current = frame;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = size.width * dpr;
+    canvas.height = size.height * dpr;
+    canvas.style.width = `${size.width}px`;
+    canvas.style.height = `${size.height}px`;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  }, [canvasRef, size.width, size.height]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    let handle = 0;
+    const render = (now: number) => {
+      frameRef.current(ctx, now);
+      handle = requestAnimationFrame(render);
+    };
+    handle = requestAnimationFrame(render);
+    return () => cancelAnimationFrame(handle);
+  }, [canvasRef]);
+};
+
+const MAX_CACHED_LAYERS = 24;
+
+// Paints static artwork (backgrounds, sprites) once into an offscreen canvas and blits it while `key` is unchanged.
+// Contexts that are not real canvases, such as the SVG exporter, get the artwork painted directly instead.
+export const useCachedLayers = () => {
+  const layersRef = useRef(new Map<string, HTMLCanvasElement>());
+
+  return useCallback(
+    (
+      ctx: CanvasRenderingContext2D,
+      key: string,
+      box: { x: number; y: number; width: number; height: number },
+      paint: (layerCtx: CanvasRenderingContext2D, originX: number, originY: number) => void,
+    ) => {
+      if (!(ctx instanceof CanvasRenderingContext2D)) {
+        paint(ctx, box.x, box.y);
+        return;
+      }
+      const ratio = ctx.getTransform().a;
+      const cacheKey = `${key}@${ratio}`;
+      let layer = layersRef.current.get(cacheKey);
+      if (!layer) {
+        layer = document.createElement('canvas');
+        layer.width = Math.ceil(box.width * ratio);
+        layer.height = Math.ceil(box.height * ratio);
+        const layerCtx = layer.getContext('2d');
+        if (layerCtx) {
+          layerCtx.setTransform(ratio, 0, 0, ratio, 0, 0);
+          paint(layerCtx, 0, 0);
+        }
+        if (layersRef.current.size >= MAX_CACHED_LAYERS) layersRef.current.clear();
+        layersRef.current.set(cacheKey, layer);
+      }
+      ctx.drawImage(layer, box.x, box.y, box.width, box.height);
+    },
+    [],
+  );
+};
+
+export const formatScientific = (value: number, unit = '', digits = 3) => {
+  const suffix = unit ? ` ${unit}` : '';
+  if (value === 0 || !Number.isFinite(value)) return `${value}${suffix}`;
+  const [mantissa, exponent] = value.toExponential(digits - 1).split('e');
+  if (Number(exponent) === 0) return `${mantissa}${suffix}`;
+  const superscript = String(Number(exponent))
+    .split('')
+    .map((char) => SUPERSCRIPT_DIGITS[char])
+    .join('');
+  return `${mantissa} × 10${superscript}${suffix}`;
+};
+
+export type VectorOptions = {
+  color: string;
+  label?: string;
+  labelPosition?: { x: number; y: number };
+  lineWidth?: number;
+  dashed?: boolean;
+  doubleHeaded?: boolean;
+  fontSize?: number;
+};
+
+const VECTOR_FONT = '"Pretendard", sans-serif';
+
+// Everything after the first underscore is drawn as a subscript, so 'F_E→M' renders as F with a lowered "E→M".
+export const drawVectorLabel = (
+  ctx: CanvasRenderingContext2D,
+  label: string,
+  x: number,
+  y: number,
+  color: string,
+  fontSize = 13,
+) => {
+  const [base, ...rest] = label.split('_');
+  const subscript = rest.join('_');
+  ctx.fillStyle = color;
+  ctx.font = `bold ${fontSize}px ${VECTOR_FONT}`;
+  ctx.fillText(base, x, y);
+  if (!subscript) return;
+  const baseWidth = ctx.measureText(base).width;
+  ctx.font = `bold ${Math.round(fontSize * 0.72)}px ${VECTOR_FONT}`;
+  ctx.fillText(subscript, x + baseWidth + 1, y + fontSize * 0.3);
+};
+
+const drawArrowHead = (ctx: CanvasRenderingContext2D, tipX: number, tipY: number, angle: number, size: number) => {
+  ctx.beginPath();
+  ctx.moveTo(tipX, tipY);
+  ctx.lineTo(tipX - size * Math.cos(angle - Math.PI / 6), tipY - size * Math.sin(angle - Math.PI / 6));
+  ctx.lineTo(tipX - size * Math.cos(angle + Math.PI / 6), tipY - size * Math.sin(angle + Math.PI / 6));
+  ctx.closePath();
+  ctx.fill();
+};
+
+export const drawVector = (
+  ctx: CanvasRenderingContext2D,
+  fromX: number,
+  fromY: number,
+  toX: number,
+  toY: number,
+  { color, label, labelPosition, lineWidth = 4, dashed = false, doubleHeaded = false, fontSize = 13 }: VectorOptions,
+) => {
+  const angle = Math.atan2(toY - fromY, toX - fromX);
+  const length = Math.hypot(toX - fromX, toY - fromY);
+  const headLength = Math.min(lineWidth * 3, length * (doubleHeaded ? 0.5 : 0.8));
+  // Stop the shaft short of each head so thick lines do not poke out past the tip.
+  const inset = headLength * Math.cos(Math.PI / 6);
+  const startInset = doubleHeaded ? inset : 0;
+
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = lineWidth;
+  ctx.setLineDash(dashed ? [lineWidth * 2, lineWidth * 1.5] : []);
+  ctx.beginPath();
+  ctx.moveTo(fromX + Math.cos(angle) * startInset, fromY + Math.sin(angle) * startInset);
+  ctx.lineTo(toX - Math.cos(angle) * inset, toY - Math.sin(angle) * inset);
+  ctx.stroke();
+  ctx.setLineDash([]);
+  drawArrowHead(ctx, toX, toY, angle, headLength);
+  if (doubleHeaded) drawArrowHead(ctx, fromX, fromY, angle + Math.PI, headLength);
+  ctx.restore();
+
+  if (label) {
+    const position = labelPosition ?? { x: toX + Math.cos(angle) * 18, y: toY + Math.sin(angle) * 18 };
+    drawVectorLabel(ctx, label, position.x, position.y, color, fontSize);
+  }
+};
+
+const niceScaleValue = (value: number) => {
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const fraction = value / magnitude;
+  if (fraction < 1.5) return magnitude;
+  if (fraction < 3.5) return 2 * magnitude;
+  if (fraction < 7.5) return 5 * magnitude;
+  return 10 * magnitude;
+};
+
+// Draws "|——| = 100 N" with the bar as close to `targetLength` px as a round value allows. Returns the bar length.
+export const drawScaleLegend = (
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  {
+    unitsPerPx,
+    unit,
+    color,
+    targetLength = 60,
+    formatValue = (value: number, valueUnit: string) => `${value.toLocaleString('en-US')} ${valueUnit}`,
+  }: {
+    unitsPerPx: number;
+    unit: string;
+    color: string;
+    targetLength?: number;
+    formatValue?: (value: number, unit: string) => string;
+  },
+) => {
+  if (!(unitsPerPx > 0) || !Number.isFinite(unitsPerPx)) return 0;
+  const value = niceScaleValue(unitsPerPx * targetLength);
+  const length = value / unitsPerPx;
+
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(x, y - 5);
+  ctx.lineTo(x, y + 5);
+  ctx.moveTo(x, y);
+  ctx.lineTo(x + length, y);
+  ctx.moveTo(x + length, y - 5);
+  ctx.lineTo(x + length, y + 5);
+  ctx.stroke();
+  ctx.font = `600 12px ${VECTOR_FONT}`;
+  ctx.fillText(`= ${formatValue(value, unit)}`, x + length + 8, y + 4);
+  ctx.restore();
+  return length;
+};
+
+export type ArrowRegion = { id: string; x1: number; y1: number; x2: number; y2: number };
+
+export const distanceToSegment = (px: number, py: number, x1: number, y1: number, x2: number, y2: number) => {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const t = Math.max(0, Math.min(1, ((px - x1) * dx + (py - y1) * dy) / (dx * dx + dy * dy || 1)));
+  return Math.hypot(px - (x1 + dx * t), py - (y1 + dy * t));
+};
+
+// Returns the id of the arrow closest to (x, y), or null when none is within `radius` pixels.
+export const hitTestArrows = (regions: ArrowRegion[], x: number, y: number, radius = 16) => {
+  const hit = regions
+    .map((region) => ({ id: region.id, distance: distanceToSegment(x, y, region.x1, region.y1, region.x2, region.y2) }))
+    .sort((a, b) => a.distance - b.distance)[0];
+  return hit && hit.distance < radius ? hit.id : null;
+};
+
 export const ForceCard = ({
   title,
   value,
@@ -73,20 +339,24 @@ export const ControlSlider = ({
   label,
   value,
   onChange,
+  onChangeCommitted,
   min,
   max,
   step = 1,
   unit,
+  formatValue = String,
   disabled,
   tone = 'light',
 }: {
   label: string;
   value: number;
   onChange: (value: number) => void;
+  onChangeCommitted?: (value: number) => void;
   min: number;
   max: number;
   step?: number;
   unit?: string;
+  formatValue?: (value: number) => string;
   disabled?: boolean;
   tone?: 'light' | 'dark';
 }) => (
@@ -99,7 +369,7 @@ export const ControlSlider = ({
         {label}
       </Typography>
       <Chip
-        label={`${value}${unit ? ` ${unit}` : ''}`}
+        label={`${formatValue(value)}${unit ? ` ${unit}` : ''}`}
         size="small"
         sx={{
           fontWeight: 700,
@@ -114,6 +384,7 @@ export const ControlSlider = ({
       max={max}
       step={step}
       onChange={(_, nextValue) => onChange(nextValue as number)}
+      onChangeCommitted={onChangeCommitted && ((_, nextValue) => onChangeCommitted(nextValue as number))}
       disabled={disabled}
       valueLabelDisplay="auto"
       sx={{
@@ -132,3 +403,494 @@ export const ControlSlider = ({
     />
   </Box>
 );
+
+export type SimulationClock = ReturnType<typeof useSimulationClock>;
+
+// Physics runs in fixed SIM_TIMESTEP ticks regardless of the display refresh rate; call `advance` once per frame.
+export const useSimulationClock = () => {
+  const [timeScale, setTimeScale] = useState(1);
+  const [isPaused, setIsPaused] = useState(false);
+  const stateRef = useRef({ lastTime: null as number | null, accumulator: 0, pendingSteps: 0, timeScale, isPaused });
+  stateRef.current.timeScale = timeScale;
+  stateRef.current.isPaused = isPaused;
+
+  const advance = useCallback((now: number, tick: (dt: number) => void) => {
+    const state = stateRef.current;
+    const elapsed = state.lastTime === null ? 0 : Math.min(MAX_FRAME_TIME, (now - state.lastTime) / 1000);
+    state.lastTime = now;
+    if (!state.isPaused) {
+      state.accumulator += elapsed * state.timeScale;
+    }
+    while (state.accumulator >= SIM_TIMESTEP) {
+      tick(SIM_TIMESTEP);
+      state.accumulator -= SIM_TIMESTEP;
+    }
+    while (state.pendingSteps > 0) {
+      tick(SIM_TIMESTEP);
+      state.pendingSteps -= 1;
+    }
+  }, []);
+
+  const stepOnce = useCallback(() => {
+    stateRef.current.pendingSteps += 1;
+  }, []);
+
+  return { timeScale, setTimeScale, isPaused, setIsPaused, advance, stepOnce };
+};
+
+export const SimClockControls = ({
+  clock,
+  actions,
+  tone = 'light',
+}: {
+  clock: SimulationClock;
+  actions?: React.ReactNode;
+  tone?: 'light' | 'dark';
+}) => (
+  <Stack spacing={1.5}>
+    <ControlSlider
+      label="Time scale"
+      value={clock.timeScale}
+      onChange={clock.setTimeScale}
+      min={0.1}
+      max={4}
+      step={0.1}
+      unit="×"
+      tone={tone}
+    />
+    <Stack direction="row" spacing={1}>
+      <Button
+        variant={tone === 'light' ? 'outlined' : 'contained'}
+        fullWidth
+        onClick={() => clock.setIsPaused((prev) => !prev)}
+        startIcon={clock.isPaused ? <PlayArrowRounded /> : <PauseRounded />}
+        sx={{ py: 1.1, fontWeight: 700, bgcolor: tone === 'light' ? undefined : '#1d4ed8' }}
+      >
+        {clock.isPaused ? 'Resume' : 'Pause'}
+      </Button>
+      <Tooltip title="Step one tick">
+        <span>
+          <IconButton
+            onClick={clock.stepOnce}
+            disabled={!clock.isPaused}
+            sx={{
+              border: tone === 'light' ? '1px solid rgba(15, 23, 42, 0.2)' : '1px solid rgba(226, 232, 240, 0.3)',
+              borderRadius: 2,
+              color: tone === 'light' ? undefined : '#f8fafc',
+            }}
+          >
+            <SkipNextRounded />
+          </IconButton>
+        </span>
+      </Tooltip>
+      {actions}
+    </Stack>
+  </Stack>
+);
+
+export type SceneExportFormat = 'png' | 'svg';
+type SceneDraw = (ctx: CanvasRenderingContext2D) => void;
+type SvgGradient = { addColorStop: (offset: number, color: string) => void; toPaint: () => string };
+type SvgPaint = string | SvgGradient;
+
+const EXPORT_SCALES = [1, 2, 4];
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+const svgNumber = (value: number) => Number(value.toFixed(2));
+
+// Records the subset of the Canvas 2D API the simulations draw with and writes it out as SVG elements, so one draw
+// function produces both the on-screen frame and a vector export. Shadows are dropped on purpose.
+const createSvgContext = (width: number, height: number) => {
+  const defs: string[] = [];
+  const elements: string[] = [];
+  const measure = document.createElement('canvas').getContext('2d');
+  const stack: { fillStyle: SvgPaint; strokeStyle: SvgPaint; lineWidth: number; font: string; dash: number[] }[] = [];
+  let path = '';
+  let gradientCount = 0;
+  let dash: number[] = [];
+
+  const createGradient = (open: string, close: string): SvgGradient => {
+    gradientCount += 1;
+    const id = `gradient-${gradientCount}`;
+    const stops: string[] = [];
+    let defined = false;
+    return {
+      addColorStop: (offset, color) => stops.push(`<stop offset="${offset}" stop-color="${escapeXml(color)}"/>`),
+      toPaint: () => {
+        if (!defined) defs.push(`${open.replace('ID', id)}${stops.join('')}${close}`);
+        defined = true;
+        return `url(#${id})`;
+      },
+    };
+  };
+  const paint = (value: SvgPaint) => (typeof value === 'string' ? escapeXml(value) : value.toPaint());
+  const strokeAttributes = () =>
+    `stroke="${paint(ctx.strokeStyle)}" stroke-width="${ctx.lineWidth}"${
+      dash.length ? ` stroke-dasharray="${dash.join(' ')}"` : ''
+    }`;
+
+  const ctx = {
+    fillStyle: '#000000' as SvgPaint,
+    strokeStyle: '#000000' as SvgPaint,
+    lineWidth: 1,
+    font: '10px sans-serif',
+    shadowBlur: 0,
+    shadowColor: 'transparent',
+    save: () => {
+      stack.push({
+        fillStyle: ctx.fillStyle,
+        strokeStyle: ctx.strokeStyle,
+        lineWidth: ctx.lineWidth,
+        font: ctx.font,
+        dash,
+      });
+    },
+    restore: () => {
+      const saved = stack.pop();
+      if (!saved) return;
+      ctx.fillStyle = saved.fillStyle;
+      ctx.strokeStyle = saved.strokeStyle;
+      ctx.lineWidth = saved.lineWidth;
+      ctx.font = saved.font;
+      dash = saved.dash;
+    },
+    setTransform: () => undefined,
+    setLineDash: (segments: number[]) => {
+      dash = [...segments];
+    },
+    beginPath: () => {
+      path = '';
+    },
+    moveTo: (x: number, y: number) => {
+      path += `M${svgNumber(x)} ${svgNumber(y)}`;
+    },
+    lineTo: (x: number, y: number) => {
+      path += `L${svgNumber(x)} ${svgNumber(y)}`;
+    },
+    closePath: () => {
+      path += 'Z';
+    },
+    arc: (x: number, y: number, r: number, start: number, end: number, counterclockwise = false) => {
+      const point = (angle: number) => `${svgNumber(x + Math.cos(angle) * r)} ${svgNumber(y + Math.sin(angle) * r)}`;
+      const sweepFlag = counterclockwise ? 0 : 1;
+      const sweep = counterclockwise ? start - end : end - start;
+      path += `${path ? 'L' : 'M'}${point(start)}`;
+      if (sweep >= Math.PI * 2) {
+        const direction = counterclockwise ? -1 : 1;
+        path += `A${svgNumber(r)} ${svgNumber(r)} 0 1 ${sweepFlag} ${point(start + Math.PI * direction)}`;
+        path += `A${svgNumber(r)} ${svgNumber(r)} 0 1 ${sweepFlag} ${point(start)}`;
+        return;
+      }
+      const normalized = ((sweep % (Math.PI * 2)) + Math.PI * 2) % (Math.PI * 2);
+      path += `A${svgNumber(r)} ${svgNumber(r)} 0 ${normalized > Math.PI ? 1 : 0} ${sweepFlag} ${point(end)}`;
+    },
+    fill: () => {
+      elements.push(`<path d="${path}" fill="${paint(ctx.fillStyle)}"/>`);
+    },
+    stroke: () => {
+      elements.push(`<path d="${path}" fill="none" ${strokeAttributes()}/>`);
+    },
+    clearRect: () => undefined,
+    fillRect: (x: number, y: number, w: number, h: number) => {
+      elements.push(
+        `<rect x="${svgNumber(x)}" y="${svgNumber(y)}" width="${svgNumber(w)}" height="${svgNumber(h)}" fill="${paint(
+          ctx.fillStyle,
+        )}"/>`,
+      );
+    },
+    strokeRect: (x: number, y: number, w: number, h: number) => {
+      elements.push(
+        `<rect x="${svgNumber(x)}" y="${svgNumber(y)}" width="${svgNumber(w)}" height="${svgNumber(
+          h,
+        )}" fill="none" ${strokeAttributes()}/>`,
+      );
+    },
+    fillText: (text: string, x: number, y: number) => {
+      elements.push(
+        `<text x="${svgNumber(x)}" y="${svgNumber(y)}" fill="${paint(ctx.fillStyle)}" style="font: ${escapeXml(
+          ctx.font,
+        )}">${escapeXml(text)}</text>`,
+      );
+    },
+    measureText: (text: string) => {
+      if (!measure) return { width: text.length * 7 };
+      measure.font = ctx.font;
+      return measure.measureText(text);
+    },
+    createLinearGradient: (x0: number, y0: number, x1: number, y1: number) =>
+      createGradient(
+        `<linearGradient id="ID" gradientUnits="userSpaceOnUse" x1="${x0}" y1="${y0}" x2="${x1}" y2="${y1}">`,
+        '</linearGradient>',
+      ),
+    createRadialGradient: (x0: number, y0: number, r0: number, x1: number, y1: number, r1: number) =>
+      createGradient(
+        `<radialGradient id="ID" gradientUnits="userSpaceOnUse" cx="${x1}" cy="${y1}" r="${r1}" fx="${x0}" fy="${y0}" fr="${r0}">`,
+        '</radialGradient>',
+      ),
+    toSvg: (scale: number) =>
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width * scale}" height="${height * scale}" viewBox="0 0 ${width} ${height}">` +
+      `<defs>${defs.join('')}</defs>${elements.join('')}</svg>`,
+  };
+  return ctx;
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Firefox and older Safari abort the download if the URL is revoked in the same task as the click.
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Re-runs the simulation's own draw function off-screen: onto a canvas `scale` times larger for PNG, or into the
+// recording context above for SVG.
+export const exportScene = (
+  draw: SceneDraw,
+  size: { width: number; height: number },
+  format: SceneExportFormat,
+  scale: number,
+  fileName: string,
+) => {
+  if (format === 'svg') {
+    const svg = createSvgContext(size.width, size.height);
+    draw(svg as unknown as CanvasRenderingContext2D);
+    downloadBlob(new Blob([svg.toSvg(scale)], { type: 'image/svg+xml' }), `${fileName}.svg`);
+    return;
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width * scale;
+  canvas.height = size.height * scale;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+  draw(ctx);
+  canvas.toBlob((blob) => {
+    if (blob) downloadBlob(blob, `${fileName}.png`);
+  }, 'image/png');
+};
+
+export const SceneExportControls = ({
+  size,
+  onExport,
+  tone = 'light',
+}: {
+  size: { width: number; height: number };
+  onExport: (format: SceneExportFormat, scale: number) => void;
+  tone?: 'light' | 'dark';
+}) => {
+  const [scale, setScale] = useState(2);
+  const buttonSx =
+    tone === 'light'
+      ? { fontWeight: 700 }
+      : { fontWeight: 700, color: '#e2e8f0', borderColor: 'rgba(226, 232, 240, 0.5)' };
+
+  return (
+    <Box>
+      <Typography
+        variant="overline"
+        sx={{ color: tone === 'light' ? 'rgba(100, 116, 139, 0.8)' : 'rgba(148, 163, 184, 0.9)' }}
+      >
+        Export diagram
+      </Typography>
+      <Stack direction="row" alignItems="center" spacing={0.5} sx={{ mt: 1 }}>
+        {EXPORT_SCALES.map((value) => (
+          <Chip
+            key={value}
+            label={`${value}×`}
+            size="small"
+            onClick={() => setScale(value)}
+            sx={{
+              fontWeight: 700,
+              bgcolor: scale === value ? 'rgba(249, 115, 22, 0.45)' : 'rgba(148, 163, 184, 0.2)',
+              color: tone === 'light' ? 'inherit' : '#e2e8f0',
+            }}
+          />
+        ))}
+        <Typography variant="caption" sx={{ pl: 1, opacity: 0.75 }}>
+          {size.width * scale} × {size.height * scale} px
+        </Typography>
+      </Stack>
+      <Stack direction="row" spacing={1} sx={{ mt: 1 }}>
+        <Button
+          variant="outlined"
+          size="small"
+          fullWidth
+          startIcon={<DownloadRounded />}
+          onClick={() => onExport('png', scale)}
+          sx={buttonSx}
+        >
+          PNG
+        </Button>
+        <Button
+          variant="outlined"
+          size="small"
+          fullWidth
+          startIcon={<DownloadRounded />}
+          onClick={() => onExport('svg', scale)}
+          sx={buttonSx}
+        >
+          SVG
+        </Button>
+      </Stack>
+    </Box>
+  );
+};
+
+const RECORDING_FPS = 30;
+const RECORDING_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+const drawReadoutPanel = (ctx: CanvasRenderingContext2D, lines: string[], dpr: number) => {
+  if (lines.length === 0) return;
+  ctx.save();
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  ctx.font = `600 13px ${VECTOR_FONT}`;
+  const width = Math.max(...lines.map((line) => ctx.measureText(line).width)) + 24;
+  const height = lines.length * 18 + 16;
+  ctx.fillStyle = 'rgba(15, 23, 42, 0.72)';
+  ctx.fillRect(16, 16, width, height);
+  ctx.fillStyle = '#f8fafc';
+  lines.forEach((line, index) => ctx.fillText(line, 28, 16 + 22 + index * 18));
+  ctx.restore();
+};
+
+// Records the simulation canvas to WebM. With burn-in on, frames are copied onto a second canvas first so the
+// current readouts (normally HTML overlays, invisible to captureStream) are painted into the video.
+export const useCanvasRecorder = (
+  canvasRef: React.RefObject<HTMLCanvasElement>,
+  { fileName, readouts }: { fileName: string; readouts: string[] },
+) => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [burnInReadouts, setBurnInReadouts] = useState(true);
+  const [elapsed, setElapsed] = useState(0);
+  const readoutsRef = useRef(readouts);
+  readoutsRef.current = readouts;
+  const sessionRef = useRef<{ recorder: MediaRecorder; cleanup: () => void } | null>(null);
+  const isSupported =
+    typeof MediaRecorder !== 'undefined' &&
+    typeof HTMLCanvasElement !== 'undefined' &&
+    'captureStream' in HTMLCanvasElement.prototype;
+
+  const start = useCallback(() => {
+    const source = canvasRef.current;
+    if (!source || !isSupported || sessionRef.current) return;
+
+    let frame = 0;
+    let stream: MediaStream;
+    if (burnInReadouts) {
+      const composite = document.createElement('canvas');
+      composite.width = source.width;
+      composite.height = source.height;
+      const ctx = composite.getContext('2d');
+      if (!ctx) return;
+      const dpr = source.width / (source.clientWidth || source.width);
+      const paint = () => {
+        ctx.drawImage(source, 0, 0);
+        drawReadoutPanel(ctx, readoutsRef.current, dpr);
+        frame = requestAnimationFrame(paint);
+      };
+      paint();
+      stream = composite.captureStream(RECORDING_FPS);
+    } else {
+      stream = source.captureStream(RECORDING_FPS);
+    }
+
+    const mimeType = RECORDING_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    const startedAt = performance.now();
+    const timer = window.setInterval(() => setElapsed((performance.now() - startedAt) / 1000), 250);
+    const cleanup = () => {
+      cancelAnimationFrame(frame);
+      window.clearInterval(timer);
+      stream.getTracks().forEach((track) => track.stop());
+      sessionRef.current = null;
+    };
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      cleanup();
+      setIsRecording(false);
+      downloadBlob(new Blob(chunks, { type: 'video/webm' }), `${fileName}.webm`);
+    };
+    recorder.start(250);
+    sessionRef.current = { recorder, cleanup };
+    setElapsed(0);
+    setIsRecording(true);
+  }, [burnInReadouts, canvasRef, fileName, isSupported]);
+
+  const stop = useCallback(() => {
+    sessionRef.current?.recorder.stop();
+  }, []);
+
+  // Leaving the page mid-recording discards the clip instead of triggering a download.
+  useEffect(
+    () => () => {
+      const session = sessionRef.current;
+      if (!session) return;
+      session.recorder.onstop = null;
+      session.recorder.stop();
+      session.cleanup();
+    },
+    [],
+  );
+
+  return { isSupported, isRecording, elapsed, burnInReadouts, setBurnInReadouts, start, stop };
+};
+
+export type CanvasRecorder = ReturnType<typeof useCanvasRecorder>;
+
+export const RecordControls = ({ recorder, tone = 'light' }: { recorder: CanvasRecorder; tone?: 'light' | 'dark' }) => (
+  <Box>
+    <Typography
+      variant="overline"
+      sx={{ color: tone === 'light' ? 'rgba(100, 116, 139, 0.8)' : 'rgba(148, 163, 184, 0.9)' }}
+    >
+      Record clip
+    </Typography>
+    <Stack direction="row" alignItems="center" spacing={1} sx={{ mt: 1 }}>
+      <Button
+        variant={recorder.isRecording ? 'contained' : 'outlined'}
+        color="error"
+        size="small"
+        disabled={!recorder.isSupported}
+        onClick={recorder.isRecording ? recorder.stop : recorder.start}
+        startIcon={recorder.isRecording ? <StopRounded /> : <FiberManualRecordRounded />}
+        sx={{ fontWeight: 700 }}
+      >
+        {recorder.isRecording ? `Stop ${recorder.elapsed.toFixed(1)} s` : 'Record'}
+      </Button>
+      <Typography variant="caption">Burn in readouts</Typography>
+      <Switch
+        size="small"
+        checked={recorder.burnInReadouts}
+        disabled={recorder.isRecording}
+        onChange={(_, checked) => recorder.setBurnInReadouts(checked)}
+        color="secondary"
+      />
+    </Stack>
+    {!recorder.isSupported && (
+      <Typography variant="caption" sx={{ display: 'block', mt: 0.5, opacity: 0.75 }}>
+        This browser cannot record the canvas.
+      </Typography>
+    )}
+  </Box>
+);
+
+export type TextbookPage = { title: string; src: string; alt: string };
+// App owns the textbook dialog; a lab only asks for it to open.
+export type SimulationProps = { learningMode: boolean; onOpenTextbook?: () => void };
+
+// Everything App needs to mount a lab: its tab, route and Key concept box are generated from this entry.
+export type SimulationDefinition = {
+  path: string;
+  label: string;
+  icon: React.ReactElement;
+  Component: React.ComponentType<SimulationProps>;
+  keyConcept: string;
+  chips: string[];
+  textbook?: TextbookPage;
+};
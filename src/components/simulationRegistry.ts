@@ -0,0 +1,19 @@
+import { balancedForcesDefinition } from './BalancedForcesSimulation';
+import { cartCollisionDefinition } from './CartCollisionSimulation';
+import { contactForceDefinition } from './ContactForceSimulation';
+import { gravityDefinition } from './GravitySimulation';
+import { magnetDefinition } from './MagnetSimulation';
+import { rocketDefinition } from './RocketSimulation';
+import { SimulationDefinition } from './simShared';
+import { skatersDefinition } from './SkatersSimulation';
+
+// Tab order. A new lab exports its own definition and is listed here; App needs no other change.
+export const SIMULATIONS: SimulationDefinition[] = [
+  contactForceDefinition,
+  gravityDefinition,
+  balancedForcesDefinition,
+  rocketDefinition,
+  skatersDefinition,
+  cartCollisionDefinition,
+  magnetDefinition,
+];